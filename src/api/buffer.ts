@@ -1 +1,4 @@
 export type FSBuffer = Uint8Array<ArrayBuffer>;
+
+/** Encodings understood wherever file content is converted to or from a string. */
+export type FSEncoding = 'utf-8' | 'utf8' | 'base64' | 'base64url' | 'hex' | 'latin1' | 'ascii' | 'utf-16le';
@@ -0,0 +1,23 @@
+import type {AbsolutePath} from "../path.ts";
+
+export interface CpOptions {
+    /** If true, copy folders and their contents recursively. Default: false */
+    recursive?: boolean;
+    /** If true, overwrite existing files. Default: true */
+    force?: boolean;
+    /** If true and `force` is false, throw `EEXIST` for existing files instead of skipping them. Default: false */
+    errorOnExist?: boolean;
+    /** If true, copies keep the modification time of their source. Default: false */
+    preserveTimestamps?: boolean;
+    /**
+     * Return false to skip an entry (and, for a folder, everything inside it).
+     * Runs inside the copy's transaction, so it must be synchronous.
+     */
+    filter?: (source: AbsolutePath, destination: AbsolutePath) => boolean;
+}
+
+export interface CopyOps {
+    /** `mode` accepts `COPYFILE_EXCL`, which makes the copy fail with `EEXIST` if `dest` exists. */
+    copyFile(src: string, dest: string, mode?: number): Promise<void>;
+    cp(src: string, dest: string, options?: CpOptions): Promise<void>;
+}
@@ -3,6 +3,7 @@ import type {AbsoluteFolderPath} from "../path.ts";
 export interface Dirent {
     isFile(): boolean;
     isDirectory(): boolean;
+    isSymbolicLink(): boolean;
 
     parentPath: AbsoluteFolderPath;
     name: string;
@@ -13,8 +14,47 @@ export interface MkdirOptions {
     recursive?: boolean;
 }
 
+export interface ReaddirOptions {
+    /** If true, return `Dirent` objects instead of names. Default: false */
+    withFileTypes?: boolean;
+
+    /**
+     * If true, list every entry under the folder, with names relative to it such as `src/index.ts`.
+     * The whole tree is read in one transaction, so the result is a consistent snapshot. Default: false
+     */
+    recursive?: boolean;
+
+    /**
+     * Reads at most this many entries, for pagination along with `after`.
+     * Entries are ordered by name. Not supported with `recursive`.
+     */
+    limit?: number;
+
+    /** Only reads entries whose name sorts after this one, usually the last name of the previous page. */
+    after?: string | undefined;
+}
+
+export interface OpendirOptions {
+    /** Number of entries read from the database at once. Default: 32 */
+    bufferSize?: number;
+}
+
+/** An open folder, whose entries are read in batches as they are iterated. */
+export interface Dir extends AsyncIterable<Dirent> {
+    readonly path: AbsoluteFolderPath;
+
+    /** Reads the next entry, or `null` once every entry has been read. */
+    read(): Promise<Dirent | null>;
+
+    /** Closes the folder; iterating with `for await` closes it once done. */
+    close(): Promise<void>;
+}
+
 export interface DirOps {
     mkdir(path: string, options?: MkdirOptions): Promise<void>;
-    readdir(path: string): Promise<string[]>;
-    readdir(path: string, options: {withFileTypes: true}): Promise<Dirent[]>;
+    readdir(path: string, options?: ReaddirOptions & {withFileTypes?: false}): Promise<string[]>;
+    readdir(path: string, options: ReaddirOptions & {withFileTypes: true}): Promise<Dirent[]>;
+
+    /** Opens a folder to iterate over its entries without reading them all at once. */
+    opendir(path: string, options?: OpendirOptions): Promise<Dir>;
 }
@@ -0,0 +1,52 @@
+import type {AbsoluteFilePath} from "../path.ts";
+import type {Stats, TimeLike} from "./stat-ops.ts";
+
+/**
+ * Flags accepted by `open`, following Node's `fs.open` semantics.
+ *
+ * - `r`: read; fails if the file does not exist.
+ * - `w`: write; creates or truncates the file.
+ * - `a`: append; creates the file, every write goes to the end.
+ * - `+`: additionally allows the other direction.
+ * - `x`: fails with `EEXIST` if the file already exists.
+ */
+export type OpenFlags =
+    | 'r' | 'r+'
+    | 'w' | 'w+' | 'wx' | 'wx+'
+    | 'a' | 'a+' | 'ax' | 'ax+'
+    ;
+
+export interface FileReadResult<T extends Uint8Array> {
+    bytesRead: number;
+    buffer: T;
+}
+
+export interface FileWriteResult {
+    bytesWritten: number;
+}
+
+export interface FileHandle {
+    /** The path the file was opened as; the handle keeps working on the file if it is renamed. */
+    readonly path: AbsoluteFilePath;
+
+    /**
+     * Reads up to `length` bytes into `buffer` at `offset`.
+     * When `position` is `null`, reads from the current file position and advances it.
+     */
+    read<T extends Uint8Array>(buffer: T, offset?: number, length?: number, position?: number | null): Promise<FileReadResult<T>>;
+
+    /**
+     * Writes `data` at `position`.
+     * When `position` is `null`, writes at the current file position and advances it.
+     * Handles opened in append mode always write at the end of the file.
+     */
+    write(data: string | Uint8Array, position?: number | null): Promise<FileWriteResult>;
+
+    truncate(len?: number): Promise<void>;
+    stat(): Promise<Stats>;
+    utimes(atime: TimeLike, mtime: TimeLike): Promise<void>;
+
+    /** Emits a pending `change` event, if any write happened since the last sync. */
+    sync(): Promise<void>;
+    close(): Promise<void>;
+}
@@ -1,7 +1,43 @@
-import type {FSBuffer} from "./buffer.ts";
+import type {FSBuffer, FSEncoding} from "./buffer.ts";
+import type {FileHandle, OpenFlags} from "./file-handle.ts";
+
+/** `'w'` overwrites and `'a'` appends; the `x` variants fail with `EEXIST` if the file exists. */
+export type WriteFileFlag = 'w' | 'wx' | 'a' | 'ax';
+
+export interface WriteFileOptions {
+    /** Defaults to `'w'`. */
+    flag?: WriteFileFlag;
+
+    /** Creates missing parent folders; when `false`, a missing parent fails with `ENOENT`. Defaults to `true`. */
+    createParents?: boolean;
+
+    /** Encoding of `content` when it is a string. Defaults to `'utf-8'`. */
+    encoding?: FSEncoding;
+}
+
+/**
+ * Computes new file content from the old one, or `null` if the file does not exist.
+ * Returning `undefined` cancels the update.
+ */
+export type FileUpdater = (old: FSBuffer | null) => FSBuffer | string | undefined;
 
 export interface FileOps {
     readFile(path: string): Promise<FSBuffer>;
-    readFile(path: string, encoding: 'utf-8'): Promise<string>;
-    writeFile(path: string, content: string | Uint8Array): Promise<void>;
+    readFile(path: string, encoding: FSEncoding): Promise<string>;
+    writeFile(path: string, content: string | Uint8Array, options?: WriteFileOptions): Promise<void>;
+
+    /** Appends to a file, creating it (and its parent folders) if missing. */
+    appendFile(path: string, content: string | Uint8Array): Promise<void>;
+
+    /**
+     * Reads the file, passes its content to `updater` and writes the result, all in one transaction.
+     * `updater` must be synchronous; the file (and its parent folders) is created if missing.
+     * Nothing is written, and no watch event is emitted, unless the content changes.
+     */
+    updateFile(path: string, updater: FileUpdater): Promise<void>;
+
+    /** Like `updateFile`, with the content parsed from and serialized to JSON. */
+    updateJSON<T>(path: string, updater: (old: T | null) => T | undefined): Promise<void>;
+
+    open(path: string, flags?: OpenFlags): Promise<FileHandle>;
 }
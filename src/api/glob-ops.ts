@@ -0,0 +1,38 @@
+import type {AbsolutePath} from "../path.ts";
+import type {Dirent} from "./dir-ops.ts";
+
+/**
+ * Options for `glob`.
+ *
+ * Patterns are matched segment by segment:
+ * - `*` matches any part of a name, `?` one character, and `[a-z]` / `[!a-z]` one character of a set.
+ * - `**` as a whole segment matches any number of folders, including none.
+ * - `{a,b}` matches either alternative.
+ * - A trailing `/` only matches folders.
+ */
+export interface GlobOptions {
+    /** Folder that relative patterns are resolved against. Default: `/` */
+    cwd?: string;
+
+    /** Patterns of paths to leave out; a folder matched by one, e.g. by `node_modules/**`, is not descended into. */
+    ignore?: string | string[];
+
+    /** If true, yield `Dirent` objects instead of paths. Default: false */
+    withFileTypes?: boolean;
+
+    /** If true, only yield files. Default: false */
+    onlyFiles?: boolean;
+
+    /** If true, `*`, `?` and `**` also match names starting with `.`. Default: false */
+    dot?: boolean;
+}
+
+export interface GlobOps {
+    /**
+     * Yields every entry matching any of `pattern`, folders before their contents.
+     * Folder paths end with `/`, following the path rules.
+     * Symbolic links are followed through `cwd` and literal names, but not through wildcards, so that `**` cannot loop.
+     */
+    glob(pattern: string | string[], options?: GlobOptions & {withFileTypes?: false}): AsyncIterableIterator<AbsolutePath>;
+    glob(pattern: string | string[], options: GlobOptions & {withFileTypes: true}): AsyncIterableIterator<Dirent>;
+}
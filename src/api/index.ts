@@ -1,16 +1,30 @@
-export type {FSBuffer} from "./buffer.ts";
+export type {FSBuffer, FSEncoding} from "./buffer.ts";
 
-export type {Dirent, MkdirOptions} from "./dir-ops.ts";
-export type {Stats} from "./stat-ops.ts";
+export type {CpOptions} from "./copy-ops.ts";
+export type {Dir, Dirent, MkdirOptions, OpendirOptions, ReaddirOptions} from "./dir-ops.ts";
+export type {FileHandle, FileReadResult, FileWriteResult, OpenFlags} from "./file-handle.ts";
+export type {FileUpdater, WriteFileFlag, WriteFileOptions} from "./file-ops.ts";
+export type {GlobOptions} from "./glob-ops.ts";
+export type {LiteFSOptions} from "./options.ts";
+export type {Stats, TimeLike} from "./stat-ops.ts";
 export type {RmOptions} from "./remove-ops.ts";
+export type {ReadStreamOptions, WriteStreamFlags, WriteStreamOptions} from "./stream-ops.ts";
+export type {TmpDir, TmpOptions} from "./tmp-ops.ts";
+export type {WalkEntry, WalkOptions} from "./walk-ops.ts";
 export type {WatchEvent, WatchOptions, RenameWatchEvent, ChangeWatchEvent} from "./watch-ops.ts";
 
+import type {CopyOps} from "./copy-ops.ts";
 import type {DirOps} from "./dir-ops.ts";
 import type {FileOps} from "./file-ops.ts";
+import type {GlobOps} from "./glob-ops.ts";
+import type {LinkOps} from "./link-ops.ts";
 import type {StatOps} from "./stat-ops.ts";
 import type {RemoveOps} from "./remove-ops.ts";
 import type {RenameOps} from "./rename-ops.ts";
+import type {StreamOps} from "./stream-ops.ts";
+import type {TmpOps} from "./tmp-ops.ts";
+import type {WalkOps} from "./walk-ops.ts";
 import type {WatchOps} from "./watch-ops.ts";
 
 export interface FileSystemAPI
-    extends DirOps, FileOps, StatOps, RemoveOps, RenameOps, WatchOps {}
+    extends CopyOps, DirOps, FileOps, GlobOps, LinkOps, StatOps, RemoveOps, RenameOps, StreamOps, TmpOps, WalkOps, WatchOps {}
@@ -0,0 +1,26 @@
+import type {AbsolutePath} from "../path.ts";
+
+export interface LinkOps {
+    /**
+     * Gives the file at `existing_path` a second name, `new_path`.
+     * Both names share the content and metadata of the file, which is only deleted along with its last name.
+     * Links in `existing_path` are followed; folders cannot be linked.
+     */
+    link(existing_path: string, new_path: string): Promise<void>;
+
+    /**
+     * Creates a symbolic link at `path` that points to `target`.
+     * A relative `target` is resolved from the folder of the link, when the link is followed.
+     * The target does not need to exist.
+     */
+    symlink(target: string, path: string): Promise<void>;
+
+    /** Returns the target of the symbolic link at `path`, as it was given to `symlink`. */
+    readlink(path: string): Promise<string>;
+
+    /**
+     * Returns the path of the entry at `path` with every symbolic link resolved.
+     * Folders get a trailing `/`, files do not.
+     */
+    realpath(path: string): Promise<AbsolutePath>;
+}
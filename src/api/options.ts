@@ -0,0 +1,28 @@
+export interface LiteFSOptions {
+    /**
+     * Updates `atime` whenever a file's content is read, at the cost of a write per read.
+     * Default: `false`, where `atime` only changes along with `mtime`.
+     */
+    trackAtime?: boolean;
+
+    /**
+     * Rejects changes to entries whose mode lacks the write permission, see `chmod`.
+     * Default: `true`; turn it off for tooling that must be able to change anything,
+     * in which case `access` only checks that the path exists.
+     */
+    enforcePermissions?: boolean;
+
+    /**
+     * Removes folders that `tmp` created more than this many milliseconds ago, in the background
+     * once the file system is created, so that ones left behind by a crash do not pile up.
+     * Default: none are removed.
+     */
+    tmpMaxAge?: number;
+
+    /**
+     * Shares watch events with every other `LiteFS` of the same database, in other tabs and workers too,
+     * through a `BroadcastChannel` named after the database.
+     * Default: `true`, where `BroadcastChannel` is available.
+     */
+    broadcast?: boolean;
+}
@@ -1,11 +1,63 @@
 export interface Stats {
     isFile(): boolean;
     isDirectory(): boolean;
+    isSymbolicLink(): boolean;
 
+    /** Stable id of the entry; unchanged by renames and writes. */
+    ino: number;
+
+    /** File type bits (`S_IFREG`, `S_IFDIR` or `S_IFLNK`) combined with the permission bits set by `chmod`. */
+    mode: number;
+
+    /** Size of the content in bytes; `0` for folders, and the length of the target for links. */
+    size: number;
+
+    /** Number of names of a file, made with `link`; always `1` for folders and links. */
+    nlink: number;
+
+    /** Last access time; equal to `mtime` unless access times are tracked. */
+    atime: Date;
     /** Last modification time. */
     mtime: Date;
+    /** Last change of the content or of the metadata, such as a rename. */
+    ctime: Date;
+    /** Creation time. */
+    birthtime: Date;
+
+    atimeMs: number;
+    mtimeMs: number;
+    ctimeMs: number;
+    birthtimeMs: number;
 }
 
+/** A point in time: a `Date`, or a number of seconds since the epoch (as in Node). */
+export type TimeLike = Date | number;
+
 export interface StatOps {
+    /** Returns the stats of the entry at `path`, following symbolic links. */
     stat(path: string): Promise<Stats>;
+
+    /** Like `stat`, but returns the stats of a symbolic link itself. */
+    lstat(path: string): Promise<Stats>;
+
+    /** Whether a file or folder exists at `path`. */
+    exists(path: string): Promise<boolean>;
+
+    /**
+     * Checks that `path` exists and allows the access given by `mode`,
+     * a combination of `F_OK` (the default), `R_OK` and `W_OK`.
+     * Throws `ENOENT` if it does not exist, and `EACCES` if its mode denies the access.
+     */
+    access(path: string, mode?: number): Promise<void>;
+
+    /**
+     * Sets the permission bits of a file or folder, such as `0o444` to make a file read-only.
+     *
+     * Only the owner's bits matter: without `0o200`, files cannot be written, removed or renamed,
+     * and folders cannot have entries added or removed. Reads are never denied.
+     */
+    chmod(path: string, mode: number): Promise<void>;
+
+    /** Sets the access and modification times of a file or folder, e.g. to restore them from a backup. */
+    utimes(path: string, atime: TimeLike, mtime: TimeLike): Promise<void>;
 }
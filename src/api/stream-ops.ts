@@ -0,0 +1,32 @@
+import type {FSBuffer, FSEncoding} from "./buffer.ts";
+
+export interface ReadStreamOptions {
+    /** Offset of the first byte to read. Default: 0 */
+    start?: number;
+    /** Offset of the last byte to read, inclusive (as in Node). Default: end of the file */
+    end?: number;
+    /** Maximum number of bytes per emitted chunk. Default: 64 KiB */
+    highWaterMark?: number;
+}
+
+/** `w` replaces the file, `a` appends to it; `x` fails with `EEXIST` if the file exists. */
+export type WriteStreamFlags = 'w' | 'wx' | 'a' | 'ax';
+
+export interface WriteStreamOptions {
+    /** Default: `'w'` */
+    flags?: WriteStreamFlags;
+    /** Encoding of string chunks. Default: `'utf-8'` */
+    encoding?: FSEncoding;
+}
+
+export interface StreamOps {
+    createReadStream(path: string, options?: ReadStreamOptions): ReadableStream<FSBuffer>;
+
+    /**
+     * Written data becomes visible only once the stream closes, all at once.
+     * Aborting the stream discards everything written to it.
+     * Replacing a file this way gives it a new `ino`, as saving through a temporary file would,
+     * unless other names share the file: it then keeps its `ino`, so that they see the new content too.
+     */
+    createWriteStream(path: string, options?: WriteStreamOptions): WritableStream<string | Uint8Array>;
+}
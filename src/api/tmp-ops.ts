@@ -0,0 +1,30 @@
+import type {AbsoluteFolderPath} from "../path.ts";
+
+export interface TmpOptions {
+    /** Start of the folder's name; it must not contain `/`. Default: `tmp-` */
+    prefix?: string;
+}
+
+/** A temporary folder, removed along with its contents when disposed, e.g. by `await using`. */
+export interface TmpDir extends AsyncDisposable {
+    readonly path: AbsoluteFolderPath;
+
+    /** Removes the folder and its contents; does nothing if it is already gone. */
+    remove(): Promise<void>;
+}
+
+export interface TmpOps {
+    /**
+     * Creates a folder whose path is `prefix` followed by six random characters, such as `/tmp/import-x1b2c3/`.
+     * The parent folder must exist.
+     *
+     * @returns The path of the new folder
+     */
+    mkdtemp(prefix: string): Promise<AbsoluteFolderPath>;
+
+    /**
+     * Creates a temporary folder under `/tmp/`, which is created if needed.
+     * Rejects inside `transaction`, as the folder is removed after the transaction is over.
+     */
+    tmp(options?: TmpOptions): Promise<TmpDir>;
+}
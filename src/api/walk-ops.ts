@@ -0,0 +1,47 @@
+import type {AbsolutePath} from "../path.ts";
+import type {Dirent} from "./dir-ops.ts";
+import type {Stats} from "./stat-ops.ts";
+
+export interface WalkEntry {
+    path: AbsolutePath;
+    dirent: Dirent;
+
+    /** Only set with `withStats`. */
+    stats?: Stats;
+
+    /** 1 for the children of the folder being walked, 2 for their children, and so on. */
+    depth: number;
+}
+
+export interface WalkOptions {
+    /** Deepest level to visit; 1 only visits the children of the folder. Default: Infinity */
+    maxDepth?: number;
+
+    /**
+     * - `pre`: depth-first, each folder before its contents
+     * - `post`: depth-first, each folder after its contents, e.g. to remove them
+     * - `bfs`: breadth-first, level by level
+     *
+     * Default: `pre`
+     */
+    order?: 'pre' | 'post' | 'bfs';
+
+    /** Only entries for which this returns true are yielded; it does not stop folders from being visited. */
+    filter?: (entry: WalkEntry) => boolean;
+
+    /** Folders for which this returns true are not descended into; they are still yielded unless filtered out. */
+    prune?: (entry: WalkEntry) => boolean;
+
+    /** If true, set `stats` on every entry. Default: false */
+    withStats?: boolean;
+}
+
+export interface WalkOps {
+    /**
+     * Yields every entry under the folder at `root`, which itself is not yielded. Siblings are visited by name.
+     *
+     * Each folder is read when the walk reaches it, so entries changed during the walk may or may not be seen.
+     */
+    walk(root: string, options?: WalkOptions & {withStats?: false}): AsyncIterableIterator<WalkEntry>;
+    walk(root: string, options: WalkOptions & {withStats: true}): AsyncIterableIterator<WalkEntry & {stats: Stats}>;
+}
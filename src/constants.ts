@@ -0,0 +1,18 @@
+/** Flag for `copyFile`: fail with `EEXIST` if the destination already exists. */
+export const COPYFILE_EXCL = 1;
+
+/** Mode for `access`: check that the path exists. */
+export const F_OK = 0;
+/** Mode for `access`: check that the path can be read. */
+export const R_OK = 4;
+/** Mode for `access`: check that the path can be written. */
+export const W_OK = 2;
+
+/** Bit mask for the file type in `Stats.mode`. */
+export const S_IFMT = 0o170000;
+/** File type of a regular file in `Stats.mode`. */
+export const S_IFREG = 0o100000;
+/** File type of a folder in `Stats.mode`. */
+export const S_IFDIR = 0o040000;
+/** File type of a symbolic link in `Stats.mode`. */
+export const S_IFLNK = 0o120000;
@@ -0,0 +1,122 @@
+import {assert} from 'chai';
+import {
+    decodeBuffer,
+    encodeString,
+    isEncoding,
+    toBytes,
+} from './encoding.ts';
+
+const HELLO = new Uint8Array([0x68, 0x65, 0x6C, 0x6C, 0x6F]);
+
+describe("isEncoding", () => {
+    it("should accept every supported encoding", () => {
+        for(const encoding of ['utf-8', 'utf8', 'base64', 'base64url', 'hex', 'latin1', 'ascii', 'utf-16le']) {
+            assert.isTrue(isEncoding(encoding), encoding);
+        }
+    });
+
+    it("should reject unknown encodings", () => {
+        assert.isFalse(isEncoding('utf-32'));
+        assert.isFalse(isEncoding('UTF-8'));
+        assert.isFalse(isEncoding(undefined));
+    });
+});
+
+describe("encodeString", () => {
+    context("utf-8", () => {
+        it("should encode multi-byte characters", () => {
+            assert.deepEqual(encodeString("é", 'utf-8'), new Uint8Array([0xC3, 0xA9]));
+            assert.deepEqual(encodeString("é", 'utf8'), new Uint8Array([0xC3, 0xA9]));
+        });
+    });
+
+    context("base64", () => {
+        it("should decode padded input", () => {
+            assert.deepEqual(encodeString("aGVsbG8=", 'base64'), HELLO);
+        });
+
+        it("should decode input without padding", () => {
+            assert.deepEqual(encodeString("aGVsbG8", 'base64'), HELLO);
+        });
+
+        it("should accept either alphabet", () => {
+            assert.deepEqual(encodeString("-_8", 'base64'), new Uint8Array([0xFB, 0xFF]));
+            assert.deepEqual(encodeString("+/8=", 'base64url'), new Uint8Array([0xFB, 0xFF]));
+        });
+
+        it("should ignore whitespace", () => {
+            assert.deepEqual(encodeString("aGVs\nbG8=", 'base64'), HELLO);
+        });
+    });
+
+    context("hex", () => {
+        it("should decode either case", () => {
+            assert.deepEqual(encodeString("00fFa0", 'hex'), new Uint8Array([0x00, 0xFF, 0xA0]));
+        });
+
+        it("should stop at the first invalid pair", () => {
+            assert.deepEqual(encodeString("0102zz03", 'hex'), new Uint8Array([0x01, 0x02]));
+            assert.deepEqual(encodeString("010", 'hex'), new Uint8Array([0x01]));
+        });
+    });
+
+    context("latin1 and ascii", () => {
+        it("should keep the low byte of each character", () => {
+            assert.deepEqual(encodeString("\xE9A", 'latin1'), new Uint8Array([0xE9, 0x41]));
+            assert.deepEqual(encodeString("\xE9A", 'ascii'), new Uint8Array([0xE9, 0x41]));
+        });
+    });
+
+    context("utf-16le", () => {
+        it("should write two bytes per code unit", () => {
+            assert.deepEqual(encodeString("A€", 'utf-16le'), new Uint8Array([0x41, 0x00, 0xAC, 0x20]));
+        });
+    });
+});
+
+describe("decodeBuffer", () => {
+    it("should decode utf-8", () => {
+        assert.strictEqual(decodeBuffer(new Uint8Array([0xC3, 0xA9]), 'utf-8'), "é");
+    });
+
+    it("should encode base64 with padding", () => {
+        assert.strictEqual(decodeBuffer(HELLO, 'base64'), "aGVsbG8=");
+    });
+
+    it("should encode base64url without padding", () => {
+        assert.strictEqual(decodeBuffer(new Uint8Array([0xFB, 0xFF]), 'base64url'), "-_8");
+    });
+
+    it("should encode hex in lower case", () => {
+        assert.strictEqual(decodeBuffer(new Uint8Array([0x00, 0xAB, 0x10]), 'hex'), "00ab10");
+    });
+
+    it("should decode latin1", () => {
+        assert.strictEqual(decodeBuffer(new Uint8Array([0xE9, 0x41]), 'latin1'), "\xE9A");
+    });
+
+    it("should clear the high bit for ascii", () => {
+        assert.strictEqual(decodeBuffer(new Uint8Array([0xE9, 0x41]), 'ascii'), "iA");
+    });
+
+    it("should decode utf-16le, ignoring a trailing odd byte", () => {
+        assert.strictEqual(decodeBuffer(new Uint8Array([0x41, 0x00, 0xAC, 0x20, 0x42]), 'utf-16le'), "A€");
+    });
+
+    it("should round-trip large binary data through every byte-preserving encoding", () => {
+        const data = new Uint8Array(100_000).map((_, i) => (i * 31) & 0xFF);
+        for(const encoding of ['base64', 'base64url', 'hex', 'latin1'] as const) {
+            assert.deepEqual(encodeString(decodeBuffer(data, encoding), encoding), data, encoding);
+        }
+    });
+});
+
+describe("toBytes", () => {
+    it("should return bytes as-is", () => {
+        assert.strictEqual(toBytes(HELLO, 'hex'), HELLO);
+    });
+
+    it("should default to utf-8", () => {
+        assert.deepEqual(toBytes("hello"), HELLO);
+    });
+});
@@ -0,0 +1,137 @@
+import type {FSBuffer, FSEncoding} from "./api/buffer.ts";
+
+const ENCODINGS: ReadonlySet<string> = new Set<FSEncoding>(['utf-8', 'utf8', 'base64', 'base64url', 'hex', 'latin1', 'ascii', 'utf-16le']);
+
+/** Number of characters passed to `String.fromCharCode` at once, to stay within argument limits. */
+const CHAR_CODE_BATCH_SIZE = 0x8000;
+
+/**
+ * Checks if a value is one of the supported encodings.
+ *
+ * @param value - The value to check
+ * @returns `true` if `value` can be passed as an `FSEncoding`
+ */
+export function isEncoding(value: unknown): value is FSEncoding {
+    return typeof value === 'string' && ENCODINGS.has(value);
+}
+
+function fromCharCodes(bytes: Uint8Array, mask: number = 0xFF): string {
+    let str = "";
+    for(let i = 0; i < bytes.length; i += CHAR_CODE_BATCH_SIZE) {
+        const batch = bytes.subarray(i, i + CHAR_CODE_BATCH_SIZE);
+        str += String.fromCharCode(...(mask === 0xFF ? batch : batch.map((byte) => byte & mask)));
+    }
+    return str;
+}
+
+function toCharCodes(str: string): FSBuffer {
+    const bytes = new Uint8Array(str.length);
+    for(let i = 0; i < str.length; ++i) {
+        bytes[i] = str.charCodeAt(i) & 0xFF;
+    }
+    return bytes;
+}
+
+function decodeHex(str: string): FSBuffer {
+    const bytes = new Uint8Array(str.length >> 1);
+
+    // Like Node.js, stops at the first pair that is not a hex byte.
+    let length = 0;
+    for(; length < bytes.length; ++length) {
+        const pair = str.slice(length * 2, length * 2 + 2);
+        if(!/^[0-9a-fA-F]{2}$/.test(pair)) break;
+
+        bytes[length] = parseInt(pair, 16);
+    }
+
+    return bytes.slice(0, length);
+}
+
+function decodeBase64(str: string): FSBuffer {
+    // Accepts both alphabets, and ignores padding and any other characters.
+    let normalized = str.replace(/-/g, '+').replace(/_/g, '/').replace(/[^A-Za-z0-9+/]/g, '');
+    if(normalized.length % 4 === 1) {
+        normalized = normalized.slice(0, -1);
+    }
+
+    return toCharCodes(atob(normalized.padEnd(Math.ceil(normalized.length / 4) * 4, '=')));
+}
+
+function encodeUTF16LE(str: string): FSBuffer {
+    const bytes = new Uint8Array(str.length * 2);
+    for(let i = 0; i < str.length; ++i) {
+        const code = str.charCodeAt(i);
+        bytes[i * 2] = code & 0xFF;
+        bytes[i * 2 + 1] = code >> 8;
+    }
+    return bytes;
+}
+
+/**
+ * Converts a string to bytes.
+ *
+ * @param str - The string to convert
+ * @param encoding - How `str` represents the bytes
+ * @returns The encoded bytes
+ *
+ * @example
+ * encodeString("hi", 'utf-8');     // Uint8Array [0x68, 0x69]
+ * encodeString("aGk=", 'base64');  // Uint8Array [0x68, 0x69]
+ * encodeString("6869", 'hex');     // Uint8Array [0x68, 0x69]
+ */
+export function encodeString(str: string, encoding: FSEncoding): FSBuffer {
+    switch(encoding) {
+        case 'utf-8':
+        case 'utf8':
+            return new TextEncoder().encode(str);
+        case 'base64':
+        case 'base64url':
+            return decodeBase64(str);
+        case 'hex':
+            return decodeHex(str);
+        case 'latin1':
+        case 'ascii':
+            return toCharCodes(str);
+        case 'utf-16le':
+            return encodeUTF16LE(str);
+    }
+}
+
+/**
+ * Converts bytes to a string; the inverse of {@link encodeString}.
+ *
+ * @param bytes - The bytes to convert
+ * @param encoding - How the returned string represents `bytes`
+ * @returns The decoded string
+ */
+export function decodeBuffer(bytes: Uint8Array, encoding: FSEncoding): string {
+    switch(encoding) {
+        case 'utf-8':
+        case 'utf8':
+            return new TextDecoder().decode(bytes);
+        case 'base64':
+            return btoa(fromCharCodes(bytes));
+        case 'base64url':
+            return btoa(fromCharCodes(bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+        case 'hex':
+            return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+        case 'latin1':
+            return fromCharCodes(bytes);
+        case 'ascii':
+            return fromCharCodes(bytes, 0x7F);
+        case 'utf-16le':
+            return new TextDecoder('utf-16le').decode(bytes.subarray(0, bytes.length & ~1));
+    }
+}
+
+/**
+ * Converts content given to a write operation to bytes.
+ *
+ * @param content - A string in `encoding`, or bytes that are returned as-is
+ * @param encoding - Defaults to `'utf-8'`
+ */
+export function toBytes<T extends Uint8Array>(content: string | T, encoding: FSEncoding = 'utf-8'): FSBuffer | T {
+    return typeof content === 'string'
+        ? encodeString(content, encoding)
+        : content;
+}
@@ -4,7 +4,11 @@ export type FSErrorCode =
     | 'ENOTDIR'
     | 'EISDIR'
     | 'ENOTEMPTY'
-    | 'EINVAL';
+    | 'EINVAL'
+    | 'EBADF'
+    | 'EACCES'
+    | 'EPERM'
+    | 'ELOOP';
 
 const ERROR_MESSAGES: Record<FSErrorCode, string> = {
     ENOENT: "no such file or directory",
@@ -13,6 +17,10 @@ const ERROR_MESSAGES: Record<FSErrorCode, string> = {
     EISDIR: "illegal operation on a directory",
     ENOTEMPTY: "directory not empty",
     EINVAL: "invalid argument",
+    EBADF: "bad file descriptor",
+    EACCES: "permission denied",
+    EPERM: "operation not permitted",
+    ELOOP: "too many symbolic links encountered",
 };
 
 export class FSError extends Error {
@@ -60,6 +68,22 @@ export class FSError extends Error {
     static EINVAL(path: string, syscall?: string): FSError {
         return new FSError('EINVAL', path, syscall);
     }
+
+    static EBADF(path: string, syscall?: string): FSError {
+        return new FSError('EBADF', path, syscall);
+    }
+
+    static EACCES(path: string, syscall?: string): FSError {
+        return new FSError('EACCES', path, syscall);
+    }
+
+    static EPERM(path: string, syscall?: string): FSError {
+        return new FSError('EPERM', path, syscall);
+    }
+
+    static ELOOP(path: string, syscall?: string): FSError {
+        return new FSError('ELOOP', path, syscall);
+    }
 }
 
 /**
@@ -1,4 +1,6 @@
 export type * from "./api/index.ts";
+export * from "./constants.ts";
+export * from "./encoding.ts";
 export * from "./error.ts";
 export * from "./path.ts";
 export * from "./lite-fs/index.ts";
@@ -0,0 +1,338 @@
+import "fake-indexeddb/auto";
+import {assert} from "chai";
+import {CHUNK_SIZE, createFSCore, type FSCore} from "./core/index.ts";
+import {createCopyOps, type CopyOps} from "./copy-ops.ts";
+import {createDirOps, type DirOps} from "./dir-ops.ts";
+import {createFileOps, type FileOps} from "./file-ops.ts";
+import {createLinkOps, type LinkOps} from "./link-ops.ts";
+import {createStatOps, type StatOps} from "./stat-ops.ts";
+import {COPYFILE_EXCL} from "../constants.ts";
+import {assertFSError} from "../error.ts";
+
+describe("copyFile", () => {
+    let core: FSCore;
+    let copy_ops: CopyOps;
+    let dir_ops: DirOps;
+    let file_ops: FileOps;
+    let link_ops: LinkOps;
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-copyfile");
+        await core.reset();
+        copy_ops = createCopyOps(core);
+        dir_ops = createDirOps(core);
+        file_ops = createFileOps(core);
+        link_ops = createLinkOps(core);
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    it("should copy a file", async () => {
+        const data = new Uint8Array(CHUNK_SIZE + 3).fill(7);
+        await file_ops.writeFile("/src.bin", data);
+
+        await copy_ops.copyFile("/src.bin", "/dest.bin");
+
+        assert.deepEqual(await file_ops.readFile("/dest.bin"), data);
+        assert.deepEqual(await file_ops.readFile("/src.bin"), data);
+    });
+
+    it("should keep the copy independent of the source", async () => {
+        await file_ops.writeFile("/src.txt", "original");
+        await copy_ops.copyFile("/src.txt", "/dest.txt");
+
+        await file_ops.writeFile("/src.txt", "changed");
+
+        assert.equal(await file_ops.readFile("/dest.txt", "utf-8"), "original");
+    });
+
+    it("should overwrite an existing destination by default", async () => {
+        await file_ops.writeFile("/src.txt", "new");
+        await file_ops.writeFile("/dest.txt", "old content");
+
+        await copy_ops.copyFile("/src.txt", "/dest.txt");
+
+        assert.equal(await file_ops.readFile("/dest.txt", "utf-8"), "new");
+    });
+
+    it("should throw EEXIST with COPYFILE_EXCL when the destination exists", async () => {
+        await file_ops.writeFile("/src.txt", "new");
+        await file_ops.writeFile("/dest.txt", "old");
+
+        try {
+            await copy_ops.copyFile("/src.txt", "/dest.txt", COPYFILE_EXCL);
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'EEXIST');
+        }
+
+        assert.equal(await file_ops.readFile("/dest.txt", "utf-8"), "old");
+    });
+
+    it("should throw EACCES when the destination is read-only", async () => {
+        await file_ops.writeFile("/src.txt", "new");
+        await file_ops.writeFile("/dest.txt", "old");
+        await createStatOps(core).chmod("/dest.txt", 0o444);
+
+        try {
+            await copy_ops.copyFile("/src.txt", "/dest.txt");
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'EACCES');
+        }
+
+        assert.equal(await file_ops.readFile("/dest.txt", "utf-8"), "old");
+    });
+
+    it("should throw ENOENT when the source does not exist", async () => {
+        try {
+            await copy_ops.copyFile("/missing.txt", "/dest.txt");
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'ENOENT');
+        }
+    });
+
+    it("should throw ENOENT when the destination folder does not exist", async () => {
+        await file_ops.writeFile("/src.txt", "x");
+        try {
+            await copy_ops.copyFile("/src.txt", "/missing/dest.txt");
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'ENOENT');
+        }
+    });
+
+    it("should throw EISDIR when the source is a folder", async () => {
+        await dir_ops.mkdir("/folder/");
+        try {
+            await copy_ops.copyFile("/folder", "/dest");
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'EISDIR');
+        }
+    });
+
+    it("should keep the content when copying onto another name of the same file", async () => {
+        await file_ops.writeFile("/a.txt", "hello world");
+        await link_ops.link("/a.txt", "/b.txt");
+
+        await copy_ops.copyFile("/a.txt", "/b.txt");
+
+        assert.equal(await file_ops.readFile("/a.txt", "utf-8"), "hello world");
+        assert.equal(await file_ops.readFile("/b.txt", "utf-8"), "hello world");
+    });
+});
+
+describe("cp", () => {
+    let core: FSCore;
+    let copy_ops: CopyOps;
+    let dir_ops: DirOps;
+    let file_ops: FileOps;
+    let link_ops: LinkOps;
+    let stat_ops: StatOps;
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-cp");
+        await core.reset();
+        copy_ops = createCopyOps(core);
+        dir_ops = createDirOps(core);
+        file_ops = createFileOps(core);
+        link_ops = createLinkOps(core);
+        stat_ops = createStatOps(core);
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    context("files", () => {
+        it("should copy a file, creating parent folders", async () => {
+            await file_ops.writeFile("/src.txt", "hello");
+
+            await copy_ops.cp("/src.txt", "/a/b/dest.txt");
+
+            assert.equal(await file_ops.readFile("/a/b/dest.txt", "utf-8"), "hello");
+        });
+
+        it("should skip existing files when force is false", async () => {
+            await file_ops.writeFile("/src.txt", "new");
+            await file_ops.writeFile("/dest.txt", "old");
+
+            await copy_ops.cp("/src.txt", "/dest.txt", {force: false});
+
+            assert.equal(await file_ops.readFile("/dest.txt", "utf-8"), "old");
+        });
+
+        it("should throw EEXIST when force is false and errorOnExist is true", async () => {
+            await file_ops.writeFile("/src.txt", "new");
+            await file_ops.writeFile("/dest.txt", "old");
+
+            try {
+                await copy_ops.cp("/src.txt", "/dest.txt", {force: false, errorOnExist: true});
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EEXIST');
+            }
+        });
+
+        it("should keep timestamps set by utimes when preserving them", async () => {
+            await file_ops.writeFile("/backup/a.txt", "a");
+            await stat_ops.utimes("/backup/a.txt", new Date(1000), new Date(2000));
+            await stat_ops.utimes("/backup/", new Date(3000), new Date(4000));
+
+            await copy_ops.cp("/backup/", "/restored/", {recursive: true, preserveTimestamps: true});
+
+            const file_stats = await stat_ops.stat("/restored/a.txt");
+            assert.strictEqual(file_stats.atimeMs, 1000);
+            assert.strictEqual(file_stats.mtimeMs, 2000);
+            assert.strictEqual((await stat_ops.stat("/restored/")).mtimeMs, 4000);
+        });
+
+        it("should preserve timestamps when asked to", async () => {
+            await file_ops.writeFile("/src.txt", "hello");
+            const src_stats = await stat_ops.stat("/src.txt");
+
+            await new Promise((resolve) => {
+                setTimeout(resolve, 10);
+            });
+
+            await copy_ops.cp("/src.txt", "/kept.txt", {preserveTimestamps: true});
+            await copy_ops.cp("/src.txt", "/fresh.txt");
+
+            assert.equal((await stat_ops.stat("/kept.txt")).mtime.getTime(), src_stats.mtime.getTime());
+            assert.isAbove((await stat_ops.stat("/fresh.txt")).mtime.getTime(), src_stats.mtime.getTime());
+        });
+
+        it("should throw EINVAL when copying a file onto itself", async () => {
+            await file_ops.writeFile("/src.txt", "hello");
+            try {
+                await copy_ops.cp("/src.txt", "/src.txt");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EINVAL');
+            }
+        });
+
+        it("should throw EINVAL when copying a file onto another of its names", async () => {
+            await file_ops.writeFile("/a.txt", "hello world");
+            await link_ops.link("/a.txt", "/b.txt");
+
+            try {
+                await copy_ops.cp("/a.txt", "/b.txt");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EINVAL');
+            }
+            assert.equal(await file_ops.readFile("/a.txt", "utf-8"), "hello world");
+        });
+
+        it("should keep the content of files whose other name is already at the destination", async () => {
+            await file_ops.writeFile("/src/a.txt", "hello world");
+            await dir_ops.mkdir("/dest/");
+            await link_ops.link("/src/a.txt", "/dest/a.txt");
+
+            await copy_ops.cp("/src/", "/dest/", {recursive: true});
+
+            assert.equal(await file_ops.readFile("/src/a.txt", "utf-8"), "hello world");
+            assert.equal(await file_ops.readFile("/dest/a.txt", "utf-8"), "hello world");
+        });
+    });
+
+    context("folders", () => {
+        beforeEach(async () => {
+            await file_ops.writeFile("/project/readme.md", "readme");
+            await file_ops.writeFile("/project/src/index.ts", "index");
+            await file_ops.writeFile("/project/node_modules/dep/index.js", "dep");
+            await dir_ops.mkdir("/project/empty/");
+        });
+
+        it("should throw EISDIR without recursive", async () => {
+            try {
+                await copy_ops.cp("/project/", "/copy/");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EISDIR');
+            }
+        });
+
+        it("should copy the whole tree with recursive", async () => {
+            await copy_ops.cp("/project/", "/copy/", {recursive: true});
+
+            assert.sameMembers(await dir_ops.readdir("/copy/"), ["readme.md", "src", "node_modules", "empty"]);
+            assert.equal(await file_ops.readFile("/copy/src/index.ts", "utf-8"), "index");
+            assert.equal(await file_ops.readFile("/copy/node_modules/dep/index.js", "utf-8"), "dep");
+            assert.deepEqual(await dir_ops.readdir("/copy/empty/"), []);
+
+            assert.equal(await file_ops.readFile("/project/src/index.ts", "utf-8"), "index");
+        });
+
+        it("should merge into an existing folder", async () => {
+            await file_ops.writeFile("/copy/own.txt", "own");
+            await file_ops.writeFile("/copy/readme.md", "old readme");
+
+            await copy_ops.cp("/project/", "/copy/", {recursive: true});
+
+            assert.equal(await file_ops.readFile("/copy/own.txt", "utf-8"), "own");
+            assert.equal(await file_ops.readFile("/copy/readme.md", "utf-8"), "readme");
+        });
+
+        it("should skip filtered entries and their subtrees", async () => {
+            await copy_ops.cp("/project/", "/copy/", {
+                recursive: true,
+                filter: (src) => !src.includes("node_modules"),
+            });
+
+            assert.sameMembers(await dir_ops.readdir("/copy/"), ["readme.md", "src", "empty"]);
+        });
+
+        it("should copy read-only folders along with their contents and modes", async () => {
+            await stat_ops.chmod("/project/src/index.ts", 0o444);
+            await stat_ops.chmod("/project/src/", 0o555);
+
+            await copy_ops.cp("/project/", "/copy/", {recursive: true});
+
+            assert.equal(await file_ops.readFile("/copy/src/index.ts", "utf-8"), "index");
+            assert.strictEqual((await stat_ops.stat("/copy/src/index.ts")).mode & 0o777, 0o444);
+            assert.strictEqual((await stat_ops.stat("/copy/src/")).mode & 0o777, 0o555);
+        });
+
+        it("should throw EACCES when copying into a read-only folder", async () => {
+            await dir_ops.mkdir("/copy/");
+            await stat_ops.chmod("/copy/", 0o555);
+
+            try {
+                await copy_ops.cp("/project/", "/copy/", {recursive: true});
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EACCES');
+            }
+
+            assert.deepEqual(await dir_ops.readdir("/copy/"), []);
+        });
+
+        it("should throw EINVAL when copying a folder into itself", async () => {
+            try {
+                await copy_ops.cp("/project/", "/project/src/copy/", {recursive: true});
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EINVAL');
+            }
+        });
+
+        it("should copy nothing when an error happens midway", async () => {
+            await file_ops.writeFile("/copy/src/index.ts", "existing");
+
+            try {
+                await copy_ops.cp("/project/", "/copy/", {recursive: true, force: false, errorOnExist: true});
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EEXIST');
+            }
+
+            assert.deepEqual(await dir_ops.readdir("/copy/"), ["src"]);
+        });
+    });
+});
@@ -0,0 +1,267 @@
+export type {CopyOps} from "../api/copy-ops.ts";
+import type {CopyOps, CpOptions} from "../api/copy-ops.ts";
+import type {WatchEvent} from "../api/watch-ops.ts";
+
+import {COPYFILE_EXCL} from "../constants.ts";
+import {FSError} from "../error.ts";
+import {getParentPath, isFolderPath, validatePath, type AbsoluteFilePath, type AbsoluteFolderPath, type AbsolutePath} from "../path.ts";
+import {
+    abortTransaction,
+    allocateIno,
+    checkParentDir,
+    checkParentWritable,
+    checkWritable,
+    copyContent,
+    createDBFileEntry,
+    createDBFolderEntry,
+    createDBSymlinkEntry,
+    deleteContent,
+    ensureParentDirs,
+    getEntry,
+    joinInodes,
+    putEntry,
+    readSubtree,
+    releaseInode,
+    resolvePath,
+    STORE_NAME,
+    toStoragePath,
+    touchParentDir,
+    type DBEntry,
+    type DBFileEntry,
+    type DBSymlinkEntry,
+    type FSCore,
+    type FSWriteTransaction,
+    type StoragePath,
+} from "./core/index.ts";
+import {checkNoEntry} from "./file-handle.ts";
+
+/**
+ * Copies `src_entry` to `dest` along with its mode, replacing the file or link there if any.
+ * A link is copied as a link to the same target.
+ * A file copied onto a file replaces its content, which its other names then share.
+ *
+ * @returns The watch event for `dest`
+ */
+async function copyFileEntry(
+    tx: FSWriteTransaction,
+    src_entry: DBFileEntry | DBSymlinkEntry,
+    dest: AbsoluteFilePath,
+    existing: DBFileEntry | DBSymlinkEntry | null,
+    preserve_timestamps: boolean,
+): Promise<WatchEvent> {
+    let ino: number;
+    let nlink = 1;
+    if(existing?.type === 'file' && src_entry.type === 'file') {
+        ino = existing.ino;
+        nlink = existing.nlink;
+        await deleteContent(tx, ino);
+    } else {
+        if(existing?.type === 'file') {
+            await releaseInode(tx, existing);
+        }
+        ino = await allocateIno(tx);
+    }
+
+    let entry: DBFileEntry | DBSymlinkEntry;
+    if(src_entry.type === 'symlink') {
+        entry = createDBSymlinkEntry(dest, ino, src_entry.target);
+    } else {
+        await copyContent(tx, src_entry.ino, ino);
+        entry = createDBFileEntry(dest, ino, src_entry.size);
+        entry.nlink = nlink;
+    }
+
+    entry.mode = src_entry.mode;
+    if(preserve_timestamps) {
+        entry.atime = src_entry.atime;
+        entry.mtime = src_entry.mtime;
+    }
+
+    await putEntry(tx, toStoragePath(dest), entry);
+
+    return {eventType: existing ? 'change' : 'rename', filename: dest};
+}
+
+export function createCopyOps(core: FSCore): CopyOps {
+    return {
+        async copyFile(src_in: string, dest_in: string, mode: number = 0): Promise<void> {
+            const tx = await core.transaction('readwrite');
+
+            const {path: src, entry: src_entry} = await resolvePath(tx, validatePath(src_in, 'file'), 'copyfile');
+            if(!src_entry) throw FSError.ENOENT(src, 'copyfile');
+            if(src_entry.type !== 'file') throw FSError.EISDIR(src, 'copyfile');
+
+            if(mode & COPYFILE_EXCL) {
+                await checkNoEntry(tx, validatePath(dest_in, 'file'), 'copyfile');
+            }
+
+            const {path: dest, entry: existing} = await resolvePath(tx, validatePath(dest_in, 'file'), 'copyfile');
+            await checkParentDir(tx, dest, 'copyfile');
+            if(existing?.type === 'folder') throw FSError.EISDIR(dest, 'copyfile');
+
+            if(existing) {
+                checkWritable(core, existing, dest, 'copyfile');
+            } else {
+                await checkParentWritable(core, tx, dest, 'copyfile');
+            }
+
+            // As in libuv, copying a file onto itself, or onto another of its names, does nothing.
+            if(src === dest || (existing?.type === 'file' && existing.ino === src_entry.ino)) {
+                await core.commit(tx);
+                return;
+            }
+
+            const event = await copyFileEntry(tx, src_entry, dest, existing, false);
+            if(!existing) {
+                await touchParentDir(tx, dest);
+            }
+            await core.commit(tx);
+
+            core.emit(event);
+        },
+        async cp(src_in: string, dest_in: string, options?: CpOptions): Promise<void> {
+            const src_path = validatePath(src_in);
+            const dest_path = validatePath(dest_in);
+
+            const force = options?.force ?? true;
+            const error_on_exist = options?.errorOnExist ?? false;
+            const preserve_timestamps = options?.preserveTimestamps ?? false;
+            const filter = options?.filter;
+
+            if(!isFolderPath(src_path) && isFolderPath(dest_path)) throw FSError.EISDIR(dest_path, 'cp');
+            if(isFolderPath(src_path) && !isFolderPath(dest_path)) throw FSError.ENOTDIR(dest_path, 'cp');
+
+            // Cannot copy onto itself, or a folder into itself.
+            const isSelfCopy = (src: AbsolutePath, dest: AbsolutePath) => src === dest || (isFolderPath(src) && dest.startsWith(src));
+            if(isSelfCopy(src_path, dest_path)) throw FSError.EINVAL(dest_path, 'cp');
+
+            if(filter && !filter(src_path, dest_path)) return;
+
+            const tx = await core.transaction('readwrite');
+            const store = tx.objectStore(STORE_NAME);
+
+            // Links are followed to the entries they lead to, which may turn out to be the same.
+            const {path: src, entry: src_entry} = await resolvePath(tx, src_path, 'cp');
+            const {path: dest, entry: dest_entry} = await resolvePath(tx, dest_path, 'cp');
+            if(isSelfCopy(src, dest)) throw FSError.EINVAL(dest_path, 'cp');
+            if(src_entry?.type === 'file' && dest_entry?.type === 'file' && src_entry.ino === dest_entry.ino) throw FSError.EINVAL(dest_path, 'cp');
+
+            const events: WatchEvent[] = [];
+
+            // Every check is made before the first write, so that a failed copy leaves the transaction unchanged.
+            const writes: Array<() => Promise<void>> = [];
+
+            // Folders created by this copy are neither checked for write permission nor marked as modified
+            // when their children are copied; the latter would also undo `preserveTimestamps`.
+            const created_folders = new Set<AbsoluteFolderPath>();
+            const addChild = async (path: AbsolutePath) => {
+                if(created_folders.has(getParentPath(path))) return;
+
+                await checkParentWritable(core, tx, path, 'cp');
+                writes.push(() => touchParentDir(tx, path));
+            };
+
+            const copyOne = async (src_entry: DBFileEntry | DBSymlinkEntry, file_dest: AbsoluteFilePath) => {
+                const existing = await getEntry(tx, toStoragePath(file_dest));
+                if(existing?.type === 'folder') throw FSError.EISDIR(file_dest, 'cp');
+
+                if(existing && !force) {
+                    if(error_on_exist) throw FSError.EEXIST(file_dest, 'cp');
+                    return;
+                }
+
+                // Another name of the same file already has its content.
+                if(existing?.type === 'file' && src_entry.type === 'file' && existing.ino === src_entry.ino) return;
+
+                if(existing) {
+                    checkWritable(core, existing, file_dest, 'cp');
+                } else {
+                    await addChild(file_dest);
+                }
+
+                writes.push(async () => {
+                    events.push(await copyFileEntry(tx, src_entry, file_dest, existing, preserve_timestamps));
+                });
+            };
+
+            const copyFolder = async (folder_entry: DBEntry, folder_dest: AbsoluteFolderPath) => {
+                const existing = await getEntry(tx, toStoragePath(folder_dest));
+                if(existing && existing.type !== 'folder') throw FSError.ENOTDIR(folder_dest, 'cp');
+                if(existing) return;
+
+                await addChild(folder_dest);
+                created_folders.add(folder_dest);
+
+                writes.push(async () => {
+                    const entry = createDBFolderEntry(folder_dest, await allocateIno(tx));
+                    entry.mode = folder_entry.mode;
+                    if(preserve_timestamps) {
+                        entry.atime = folder_entry.atime;
+                        entry.mtime = folder_entry.mtime;
+                    }
+
+                    await store.put(entry, toStoragePath(folder_dest));
+
+                    events.push({eventType: 'rename', filename: folder_dest});
+                });
+            };
+
+            if(!src_entry) throw FSError.ENOENT(src_path, 'cp');
+            if(src_entry.type === 'folder' && !options?.recursive) throw FSError.EISDIR(src, 'cp');
+
+            if(src_entry.type === 'file') {
+                await copyOne(src_entry, dest as AbsoluteFilePath);
+            } else {
+                await copyFolder(src_entry, dest as AbsoluteFolderPath);
+
+                // The subtree is read at once; as it is ordered by key, each folder is created before its contents.
+                const src_key = toStoragePath(src);
+                const filtered_folders = new Set<StoragePath>();
+
+                for(const {key, entry: child} of await joinInodes(tx, await readSubtree(tx, src_key))) {
+                    const is_folder = child.type === 'folder';
+
+                    // Contents of a filtered folder are left out along with it.
+                    if(filtered_folders.has(child.parent)) {
+                        if(is_folder) filtered_folders.add(key);
+                        continue;
+                    }
+
+                    const relative_path = `${key.slice(src_key.length + 1)}${is_folder ? '/' : ''}`;
+                    const child_src: AbsolutePath = `${src}${relative_path}`;
+                    const child_dest: AbsolutePath = `${dest}${relative_path}`;
+
+                    if(filter && !filter(child_src, child_dest)) {
+                        if(is_folder) filtered_folders.add(key);
+                        continue;
+                    }
+
+                    if(child.type === 'folder') {
+                        await copyFolder(child, child_dest as AbsoluteFolderPath);
+                    } else {
+                        await copyOne(child, child_dest as AbsoluteFilePath);
+                    }
+                }
+            }
+
+            for(const dir of await ensureParentDirs(core, tx, dest)) {
+                events.push({eventType: 'rename', filename: dir});
+            }
+
+            try {
+                for(const write of writes) {
+                    await write();
+                }
+            } catch(e) {
+                abortTransaction(tx);
+                throw e;
+            }
+
+            await core.commit(tx);
+
+            for(const event of events) {
+                core.emit(event);
+            }
+        },
+    };
+}
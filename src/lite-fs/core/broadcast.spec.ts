@@ -0,0 +1,162 @@
+import 'fake-indexeddb/auto';
+
+import {assert} from 'chai';
+import {Worker} from 'node:worker_threads';
+
+import type {LiteFSOptions, WatchEvent} from "../../api/index.ts";
+import {createFSCore, type FSCore} from "./core.ts";
+
+/**
+ * Runs a core of `db_name` in a worker, which forwards its events and emits the ones it is sent.
+ * Loaded as a `data:` URL, as `eval` code cannot be a module before Node 20.
+ */
+const WORKER_CODE = `
+    import {parentPort, workerData} from 'node:worker_threads';
+    const {createFSCore} = await import(workerData.core_url);
+
+    const core = createFSCore(workerData.db_name);
+    core.subscribe((event) => parentPort.postMessage({type: 'event', event}));
+    parentPort.on('message', (event) => core.emit(event));
+    parentPort.postMessage({type: 'ready'});
+`;
+
+type WorkerMessage = {type: 'ready'} | {type: 'event', event: WatchEvent};
+
+/** Waits a few turns of the event loop, so that any broadcast message gets delivered. */
+function settle(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+describe('broadcast', () => {
+    const DB_NAME = 'test-broadcast';
+
+    context('between cores of the same thread', () => {
+        let cores: FSCore[];
+        let first: FSCore;
+        let second: FSCore;
+
+        const openCore = (db_name: string, options?: LiteFSOptions): FSCore => {
+            const core = createFSCore(db_name, options);
+            cores.push(core);
+            return core;
+        };
+
+        beforeEach(() => {
+            cores = [];
+            first = openCore(DB_NAME);
+            second = openCore(DB_NAME);
+        });
+
+        afterEach(async () => {
+            await Promise.all(cores.map((core) => core.close()));
+        });
+
+        it('should deliver each event once to every core', async () => {
+            const first_events: WatchEvent[] = [];
+            const second_events: WatchEvent[] = [];
+            first.subscribe((event) => first_events.push(event));
+            second.subscribe((event) => second_events.push(event));
+
+            first.emit({eventType: 'change', filename: '/a.txt'});
+            await settle();
+
+            assert.deepEqual(first_events, [{eventType: 'change', filename: '/a.txt'}]);
+            assert.deepEqual(second_events, [{eventType: 'change', filename: '/a.txt'}]);
+        });
+
+        it('should not share events when disabled', async () => {
+            const isolated = openCore(DB_NAME, {broadcast: false});
+            const isolated_events: WatchEvent[] = [];
+            const second_events: WatchEvent[] = [];
+            isolated.subscribe((event) => isolated_events.push(event));
+            second.subscribe((event) => second_events.push(event));
+
+            isolated.emit({eventType: 'change', filename: '/a.txt'});
+            first.emit({eventType: 'rename', filename: '/b.txt'});
+            await settle();
+
+            assert.deepEqual(isolated_events, [{eventType: 'change', filename: '/a.txt'}]);
+            assert.deepEqual(second_events, [{eventType: 'rename', filename: '/b.txt'}]);
+        });
+
+        it('should ignore events emitted after close', async () => {
+            const second_events: WatchEvent[] = [];
+            second.subscribe((event) => second_events.push(event));
+
+            await first.close();
+            first.emit({eventType: 'change', filename: '/a.txt'});
+            await settle();
+
+            assert.deepEqual(second_events, []);
+        });
+
+        it('should not share events between databases', async () => {
+            const other = openCore(`${DB_NAME}-other`);
+            const other_events: WatchEvent[] = [];
+            other.subscribe((event) => other_events.push(event));
+
+            first.emit({eventType: 'change', filename: '/a.txt'});
+            await settle();
+
+            assert.isEmpty(other_events);
+        });
+    });
+
+    context('between threads', () => {
+        let core: FSCore;
+        let worker: Worker;
+        let messages: WorkerMessage[];
+
+        function waitForMessage(predicate: (message: WorkerMessage) => boolean): Promise<WorkerMessage> {
+            return new Promise((resolve, reject) => {
+                const found = messages.find(predicate);
+                if(found) return resolve(found);
+
+                const onMessage = (message: WorkerMessage) => {
+                    if(!predicate(message)) return;
+                    worker.off('message', onMessage);
+                    resolve(message);
+                };
+                worker.on('message', onMessage);
+                worker.once('error', reject);
+            });
+        }
+
+        beforeEach(async () => {
+            core = createFSCore(DB_NAME);
+            messages = [];
+            worker = new Worker(new URL(`data:text/javascript,${encodeURIComponent(WORKER_CODE)}`), {
+                workerData: {
+                    core_url: new URL('./core.js', import.meta.url).href,
+                    db_name: DB_NAME,
+                },
+            });
+            worker.on('message', (message: WorkerMessage) => messages.push(message));
+            await waitForMessage(({type}) => type === 'ready');
+        });
+
+        afterEach(async () => {
+            await worker.terminate();
+            await core.close();
+        });
+
+        it('should deliver local events to a worker', async () => {
+            core.emit({eventType: 'rename', filename: '/from-main.txt'});
+
+            const message = await waitForMessage(({type}) => type === 'event');
+            assert.deepEqual(message, {type: 'event', event: {eventType: 'rename', filename: '/from-main.txt'}});
+        });
+
+        it('should deliver events of a worker to local subscribers, once', async () => {
+            const events: WatchEvent[] = [];
+            core.subscribe((event) => events.push(event));
+
+            worker.postMessage({eventType: 'change', filename: '/from-worker.txt'});
+            await waitForMessage(({type}) => type === 'event');
+            await settle();
+
+            assert.deepEqual(events, [{eventType: 'change', filename: '/from-worker.txt'}]);
+            assert.lengthOf(messages.filter(({type}) => type === 'event'), 1);
+        });
+    });
+});
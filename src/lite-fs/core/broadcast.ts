@@ -0,0 +1,60 @@
+import type {WatchEvent} from "../../api/index.ts";
+
+/** Name of the channel on which every core of a database shares its watch events, wherever it runs. */
+export function getChannelName(db_name: string): string {
+    return `lite-fs:${db_name}`;
+}
+
+interface BroadcastMessage {
+    /** Id of the core that emitted the event. */
+    origin: string;
+    event: WatchEvent;
+}
+
+function isBroadcastMessage(data: unknown): data is BroadcastMessage {
+    if(typeof data !== 'object' || data == null) return false;
+
+    const {origin, event} = data as Partial<BroadcastMessage>;
+    return typeof origin === 'string' && typeof event === 'object' && event != null && typeof event.filename === 'string';
+}
+
+export interface EventChannel {
+    /** Sends `event` to the cores of the same database in other contexts, such as tabs and workers; does nothing once closed. */
+    post(event: WatchEvent): void;
+    close(): void;
+}
+
+/**
+ * Opens the channel of `db_name`, passing events posted by other cores to `receive`.
+ * Events are tagged with the id of this core, so that it never receives its own.
+ *
+ * @returns `null` where `BroadcastChannel` is unavailable
+ */
+export function openEventChannel(db_name: string, receive: (event: WatchEvent) => void): EventChannel | null {
+    if(typeof BroadcastChannel === 'undefined') return null;
+
+    const origin = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    const channel = new BroadcastChannel(getChannelName(db_name));
+
+    channel.onmessage = ({data}: MessageEvent<unknown>) => {
+        if(!isBroadcastMessage(data) || data.origin === origin) return;
+        receive(data.event);
+    };
+
+    // In Node, an open channel would otherwise keep the process alive.
+    (channel as BroadcastChannel & {unref?: () => void}).unref?.();
+
+    let is_closed = false;
+
+    return {
+        post(event: WatchEvent): void {
+            if(is_closed) return;
+            channel.postMessage({origin, event} satisfies BroadcastMessage);
+        },
+        close(): void {
+            if(is_closed) return;
+            is_closed = true;
+            channel.close();
+        },
+    };
+}
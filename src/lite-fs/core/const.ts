@@ -1,2 +1,20 @@
 export const STORE_NAME = 'entries';
 export const INDEX_BY_PARENT = 'by-parent';
+
+export const CHUNK_STORE_NAME = 'chunks';
+
+/** Metadata of files, keyed by `ino` and shared by all of their names. */
+export const INODE_STORE_NAME = 'inodes';
+
+/** Small key-value records about the database itself, such as id counters. */
+export const META_STORE_NAME = 'meta';
+export const META_NEXT_INO = 'next-ino';
+
+/** Content staged by an open write stream is recorded under `[META_STAGING, ino]`, along with the time of its last write. */
+export const META_STAGING = 'staging';
+
+/** Every object store, for transactions that touch entries together with their content. */
+export const STORE_NAMES: string[] = [STORE_NAME, CHUNK_STORE_NAME, INODE_STORE_NAME, META_STORE_NAME];
+
+/** File contents are split into records of at most this many bytes. */
+export const CHUNK_SIZE = 64 * 1024;
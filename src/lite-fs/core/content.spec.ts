@@ -0,0 +1,145 @@
+import 'fake-indexeddb/auto';
+
+import {assert} from 'chai';
+
+import {CHUNK_SIZE, CHUNK_STORE_NAME, STORE_NAMES} from "./const.ts";
+import {deleteContent, putContent, readContent, truncateContent, writeContent} from "./content.ts";
+import {createFSCore, type FSCore} from "./core.ts";
+
+function createBytes(length: number, seed: number = 0): Uint8Array<ArrayBuffer> {
+    const bytes = new Uint8Array(length);
+    for(let i = 0; i < length; ++i) bytes[i] = (i * 7 + seed) & 0xFF;
+    return bytes;
+}
+
+describe('content', () => {
+    let core: FSCore;
+
+    beforeEach(async () => {
+        core = createFSCore('test-content');
+        await core.reset();
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    async function countChunks(): Promise<number> {
+        const db = await core.getDB();
+        return await db.count(CHUNK_STORE_NAME);
+    }
+
+    context('putContent and readContent', () => {
+        it('should split content into chunks', async () => {
+            const data = createBytes(CHUNK_SIZE * 2 + 10);
+
+            const db = await core.getDB();
+            const tx = db.transaction(STORE_NAMES, 'readwrite');
+            await putContent(tx, 1, data);
+            await tx.done;
+
+            assert.strictEqual(await countChunks(), 3);
+
+            const read_tx = db.transaction(STORE_NAMES, 'readonly');
+            assert.deepEqual(await readContent(read_tx, 1, data.byteLength), data);
+        });
+
+        it('should read a range spanning a chunk boundary', async () => {
+            const data = createBytes(CHUNK_SIZE * 2);
+
+            const db = await core.getDB();
+            const tx = db.transaction(STORE_NAMES, 'readwrite');
+            await putContent(tx, 1, data);
+
+            const start = CHUNK_SIZE - 3;
+            const part = await readContent(tx, 1, data.byteLength, start, start + 6);
+            await tx.done;
+
+            assert.deepEqual(part, data.slice(start, start + 6));
+        });
+
+        it('should not store any chunk for empty content', async () => {
+            const db = await core.getDB();
+            const tx = db.transaction(STORE_NAMES, 'readwrite');
+            await putContent(tx, 1, new Uint8Array(0));
+            await tx.done;
+
+            assert.strictEqual(await countChunks(), 0);
+        });
+    });
+
+    context('writeContent', () => {
+        it('should patch bytes in the middle of existing content', async () => {
+            const data = createBytes(CHUNK_SIZE * 2);
+
+            const db = await core.getDB();
+            const tx = db.transaction(STORE_NAMES, 'readwrite');
+            await putContent(tx, 1, data);
+
+            const size = await writeContent(tx, 1, data.byteLength, new Uint8Array([1, 2, 3, 4]), CHUNK_SIZE - 2);
+            const content = await readContent(tx, 1, size);
+            await tx.done;
+
+            data.set([1, 2, 3, 4], CHUNK_SIZE - 2);
+            assert.strictEqual(size, CHUNK_SIZE * 2);
+            assert.deepEqual(content, data);
+        });
+
+        it('should leave a zero-filled gap when writing past the end', async () => {
+            const db = await core.getDB();
+            const tx = db.transaction(STORE_NAMES, 'readwrite');
+            await putContent(tx, 1, new Uint8Array([9]));
+
+            const position = CHUNK_SIZE * 3 + 1;
+            const size = await writeContent(tx, 1, 1, new Uint8Array([7]), position);
+            const content = await readContent(tx, 1, size);
+            await tx.done;
+
+            assert.strictEqual(size, position + 1);
+            assert.strictEqual(content[0], 9);
+            assert.strictEqual(content[position], 7);
+            assert.isTrue(content.subarray(1, position).every((byte) => byte === 0));
+            assert.strictEqual(await countChunks(), 2);
+        });
+    });
+
+    context('truncateContent', () => {
+        it('should drop trailing chunks and trim the last one', async () => {
+            const data = createBytes(CHUNK_SIZE * 3);
+
+            const db = await core.getDB();
+            const tx = db.transaction(STORE_NAMES, 'readwrite');
+            await putContent(tx, 1, data);
+            await truncateContent(tx, 1, data.byteLength, CHUNK_SIZE + 5);
+            await tx.done;
+
+            assert.strictEqual(await countChunks(), 2);
+        });
+
+        it('should not resurrect truncated bytes when growing again', async () => {
+            const data = createBytes(10, 1);
+
+            const db = await core.getDB();
+            const tx = db.transaction(STORE_NAMES, 'readwrite');
+            await putContent(tx, 1, data);
+            await truncateContent(tx, 1, 10, 4);
+            const content = await readContent(tx, 1, 10);
+            await tx.done;
+
+            assert.deepEqual(content, new Uint8Array([...data.slice(0, 4), 0, 0, 0, 0, 0, 0]));
+        });
+    });
+
+    context('deleteContent', () => {
+        it('should only delete chunks of the given file', async () => {
+            const db = await core.getDB();
+            const tx = db.transaction(STORE_NAMES, 'readwrite');
+            await putContent(tx, 1, createBytes(CHUNK_SIZE + 1));
+            await putContent(tx, 2, createBytes(1));
+            await deleteContent(tx, 1);
+            await tx.done;
+
+            assert.strictEqual(await countChunks(), 1);
+        });
+    });
+});
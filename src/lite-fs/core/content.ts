@@ -0,0 +1,118 @@
+import type {FSBuffer} from "../../api/index.ts";
+
+import {CHUNK_SIZE, CHUNK_STORE_NAME} from "./const.ts";
+import type {FSTransaction, FSWriteTransaction} from "./core.ts";
+
+/**
+ * Chunks are keyed by the owning file's `ino` and their index within the file,
+ * so renaming a file never touches its content.
+ */
+export type ChunkKey = [ino: number, index: number];
+
+function chunkRange(ino: number, first: number = 0, last: number = Infinity): IDBKeyRange {
+    return IDBKeyRange.bound([ino, first], [ino, last]);
+}
+
+/**
+ * Reads bytes `[start, end)` of a file of `size` bytes, touching only the chunks overlapping the range.
+ * Bytes without a backing chunk (sparse regions) read as zero.
+ */
+export async function readContent(tx: FSTransaction, ino: number, size: number, start: number = 0, end: number = size): Promise<FSBuffer> {
+    start = Math.min(start, size);
+    end = Math.min(end, size);
+
+    const out = new Uint8Array(Math.max(0, end - start));
+    if(out.byteLength === 0) return out;
+
+    const store = tx.objectStore(CHUNK_STORE_NAME);
+    const range = chunkRange(ino, Math.floor(start / CHUNK_SIZE), Math.floor((end - 1) / CHUNK_SIZE));
+
+    for(let cursor = await store.openCursor(range); cursor; cursor = await cursor.continue()) {
+        const [, index] = cursor.key as ChunkKey;
+        const chunk = cursor.value as FSBuffer;
+
+        const chunk_start = index * CHUNK_SIZE;
+        const from = Math.max(start, chunk_start);
+        const to = Math.min(end, chunk_start + chunk.byteLength);
+
+        if(from < to) {
+            out.set(chunk.subarray(from - chunk_start, to - chunk_start), from - start);
+        }
+    }
+
+    return out;
+}
+
+/**
+ * Writes `data` at `position` into a file of `size` bytes, touching only the affected chunks.
+ *
+ * @returns The new size of the file
+ */
+export async function writeContent(tx: FSWriteTransaction, ino: number, size: number, data: Uint8Array, position: number): Promise<number> {
+    const store = tx.objectStore(CHUNK_STORE_NAME);
+    const end = position + data.byteLength;
+
+    for(let index = Math.floor(position / CHUNK_SIZE); index * CHUNK_SIZE < end; ++index) {
+        const chunk_start = index * CHUNK_SIZE;
+        const from = Math.max(position, chunk_start);
+        const to = Math.min(end, chunk_start + CHUNK_SIZE);
+
+        let chunk: FSBuffer;
+        if(to - from === CHUNK_SIZE) {
+            chunk = new Uint8Array(CHUNK_SIZE);
+        } else {
+            const existing = (await store.get([ino, index])) as FSBuffer | undefined;
+            chunk = new Uint8Array(Math.max(existing?.byteLength ?? 0, to - chunk_start));
+            if(existing) chunk.set(existing);
+        }
+
+        chunk.set(data.subarray(from - position, to - position), from - chunk_start);
+        await store.put(chunk, [ino, index]);
+    }
+
+    return Math.max(size, end);
+}
+
+/** Replaces the whole content of a file. */
+export async function putContent(tx: FSWriteTransaction, ino: number, data: Uint8Array): Promise<void> {
+    const store = tx.objectStore(CHUNK_STORE_NAME);
+    await store.delete(chunkRange(ino));
+
+    for(let index = 0; index * CHUNK_SIZE < data.byteLength; ++index) {
+        await store.put(data.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE), [ino, index]);
+    }
+}
+
+/**
+ * Shrinks a file of `size` bytes to `len` bytes.
+ * Growing needs no chunk updates, as the new region reads as zero.
+ */
+export async function truncateContent(tx: FSWriteTransaction, ino: number, size: number, len: number): Promise<void> {
+    if(len >= size) return;
+
+    const store = tx.objectStore(CHUNK_STORE_NAME);
+    await store.delete(chunkRange(ino, Math.ceil(len / CHUNK_SIZE)));
+
+    const partial_len = len % CHUNK_SIZE;
+    if(partial_len === 0) return;
+
+    const index = Math.floor(len / CHUNK_SIZE);
+    const chunk = (await store.get([ino, index])) as FSBuffer | undefined;
+    if(chunk && chunk.byteLength > partial_len) {
+        await store.put(chunk.slice(0, partial_len), [ino, index]);
+    }
+}
+
+/** Copies every chunk of `src_ino` to `dest_ino`, which is expected to have no content. */
+export async function copyContent(tx: FSWriteTransaction, src_ino: number, dest_ino: number): Promise<void> {
+    const store = tx.objectStore(CHUNK_STORE_NAME);
+
+    for(let cursor = await store.openCursor(chunkRange(src_ino)); cursor; cursor = await cursor.continue()) {
+        const [, index] = cursor.key as ChunkKey;
+        await store.put(cursor.value as FSBuffer, [dest_ino, index]);
+    }
+}
+
+export async function deleteContent(tx: FSWriteTransaction, ino: number): Promise<void> {
+    await tx.objectStore(CHUNK_STORE_NAME).delete(chunkRange(ino));
+}
@@ -1,71 +1,146 @@
-import {deleteDB, openDB, type IDBPDatabase} from "idb";
-import {INDEX_BY_PARENT, STORE_NAME} from "./const.ts";
-import type {DBEntry} from "./db-entry.ts";
-import type {FSBuffer, WatchEvent} from "../../api/index.ts";
+import {deleteDB, openDB, type IDBPDatabase, type IDBPTransaction} from "idb";
+import {openEventChannel} from "./broadcast.ts";
+import {STORE_NAME, STORE_NAMES} from "./const.ts";
+import {readContent} from "./content.ts";
+import {getInode, type DBRecord} from "./db-entry.ts";
+import type {StoragePath} from "./path.ts";
+import {DB_VERSION, upgradeDB} from "./schema.ts";
+import type {FSBuffer, LiteFSOptions, WatchEvent} from "../../api/index.ts";
+
+/** A transaction of any mode over every object store. */
+export type FSTransaction = IDBPTransaction<unknown, string[], IDBTransactionMode>;
+
+/** A transaction over every object store that may write. */
+export type FSWriteTransaction = IDBPTransaction<unknown, string[], 'readwrite' | 'versionchange'>;
+
+/**
+ * Aborts `tx`, to undo its writes before an error is thrown.
+ * The rejection of `tx.done` that follows is handled here, as the thrown error already reports the failure.
+ */
+export function abortTransaction(tx: FSTransaction): void {
+    tx.done.catch(() => {
+        /* reported by the caller */
+    });
+    tx.abort();
+}
 
 export type WatchCallback = (event: WatchEvent) => void;
 
 export interface FSCore {
+    readonly options: Readonly<LiteFSOptions>;
+
+    /** Whether every operation shares one transaction, as in a transaction core. */
+    readonly inTransaction: boolean;
+
     getDB(): Promise<IDBPDatabase>;
+
+    /**
+     * Starts a transaction over every object store.
+     * A transaction core hands out its shared transaction instead.
+     */
+    transaction(mode: 'readonly'): Promise<FSTransaction>;
+    transaction(mode: 'readwrite'): Promise<FSWriteTransaction>;
+
+    /**
+     * Waits for `tx`, obtained from `transaction`, to commit.
+     * A transaction core returns immediately, as its transaction commits only once the whole batch is done.
+     */
+    commit(tx: FSTransaction): Promise<void>;
+
     dumpFiles(): Promise<Array<[path: string, content: FSBuffer]>>;
     reset(): Promise<void>;
 
+    /** Closes the connection to the database, and stops sharing events with other tabs and workers. */
+    close(): Promise<void>;
+
     emit(event: WatchEvent): void;
     subscribe(callback: WatchCallback): () => void;
 }
 
-export function createFSCore(db_name: string): FSCore {
+export function createFSCore(db_name: string, options: LiteFSOptions = {}): FSCore {
     let db_promise: Promise<IDBPDatabase> | null = null;
     const subscribers = new Set<WatchCallback>();
 
+    const notify = (event: WatchEvent): void => {
+        for(const callback of subscribers) {
+            try {
+                callback(event);
+            } catch{
+                /* do nothing */
+            }
+        }
+    };
+
+    // Events from other tabs and workers reach local subscribers as if emitted here.
+    const channel = options.broadcast === false ? null : openEventChannel(db_name, notify);
+
     const getDB = (): Promise<IDBPDatabase> => {
         if(!db_promise) {
-            db_promise = openDB(db_name, 1, {
-                upgrade(db) {
-                    const store = db.createObjectStore(STORE_NAME);
-                    store.createIndex(INDEX_BY_PARENT, 'parent', {unique: false});
+            db_promise = openDB(db_name, DB_VERSION, {
+                upgrade(db, old_version, _new_version, tx) {
+                    upgradeDB(db, old_version, tx).catch(() => {
+                        tx.abort();
+                    });
                 },
             });
         }
         return db_promise;
     };
 
+    const closeDB = async (): Promise<void> => {
+        if(!db_promise) return;
+
+        const local_db_promise = db_promise;
+        db_promise = null;
+
+        const db = await local_db_promise;
+        db.close();
+    };
+
+    async function transaction(mode: 'readonly'): Promise<FSTransaction>;
+    async function transaction(mode: 'readwrite'): Promise<FSWriteTransaction>;
+    async function transaction(mode: 'readonly' | 'readwrite'): Promise<FSTransaction> {
+        const db = await getDB();
+        return db.transaction(STORE_NAMES, mode);
+    }
+
     return {
+        options,
+        inTransaction: false,
         getDB,
+        transaction,
+        async commit(tx: FSTransaction): Promise<void> {
+            await tx.done;
+        },
         async dumpFiles(): Promise<Array<[path: string, content: FSBuffer]>> {
             const db = await getDB();
-            const tx = db.transaction(STORE_NAME, 'readonly');
+            const tx = db.transaction(STORE_NAMES, 'readonly');
             const store = tx.objectStore(STORE_NAME);
 
             const out: Array<[path: string, content: FSBuffer]> = [];
             for(let cursor = await store.openCursor(); cursor; cursor = await cursor.continue()) {
-                const key = cursor.key.toString();
-                const value = cursor.value as DBEntry;
-                if(value.type !== 'file') continue;
-                out.push([key, value.content]);
+                const key = cursor.key.toString() as StoragePath;
+                const record = cursor.value as DBRecord;
+                if(record.type !== 'file') continue;
+
+                const inode = await getInode(tx, record.ino);
+                out.push([key, await readContent(tx, record.ino, inode?.size ?? 0)]);
             }
 
             await tx.done;
             return out;
         },
         async reset() {
-            if(db_promise) {
-                const local_db_promise = db_promise;
-                db_promise = null;
-
-                const db = await local_db_promise;
-                db.close();
-            }
+            await closeDB();
             await deleteDB(db_name);
         },
+        async close(): Promise<void> {
+            channel?.close();
+            await closeDB();
+        },
         emit(event: WatchEvent): void {
-            for(const callback of subscribers) {
-                try {
-                    callback(event);
-                } catch{
-                    /* do nothing */
-                }
-            }
+            notify(event);
+            channel?.post(event);
         },
         subscribe(callback: WatchCallback): () => void {
             subscribers.add(callback);
@@ -75,3 +150,45 @@ export function createFSCore(db_name: string): FSCore {
         },
     };
 }
+
+/** A core whose operations all share one transaction, and whose events wait for it to commit. */
+export interface FSTransactionCore extends FSCore {
+    /** Emits the events buffered so far; call once the transaction has committed. */
+    flush(): void;
+}
+
+export function createTransactionCore(base: FSCore, tx: FSWriteTransaction): FSTransactionCore {
+    const pending_events: WatchEvent[] = [];
+
+    async function transaction(mode: 'readonly'): Promise<FSTransaction>;
+    async function transaction(mode: 'readwrite'): Promise<FSWriteTransaction>;
+    async function transaction(): Promise<FSTransaction> {
+        return tx;
+    }
+
+    return {
+        options: base.options,
+        inTransaction: true,
+        getDB: base.getDB,
+        transaction,
+        async commit(): Promise<void> {
+            /* committed along with the whole transaction */
+        },
+        dumpFiles: base.dumpFiles,
+        reset(): Promise<void> {
+            return Promise.reject(new Error("Cannot reset the database inside a transaction."));
+        },
+        close(): Promise<void> {
+            return Promise.reject(new Error("Cannot close the database inside a transaction."));
+        },
+        emit(event: WatchEvent): void {
+            pending_events.push(event);
+        },
+        subscribe: base.subscribe,
+        flush(): void {
+            for(const event of pending_events.splice(0)) {
+                base.emit(event);
+            }
+        },
+    };
+}
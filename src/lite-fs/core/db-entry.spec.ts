@@ -1,36 +1,40 @@
 import 'fake-indexeddb/auto';
 
 import {assert} from 'chai';
-import {deleteDB, openDB, type IDBPDatabase} from 'idb';
+import type {IDBPDatabase} from 'idb';
 
 import {assertFSError, isFSError} from "../../error.ts";
 
-import {STORE_NAME, INDEX_BY_PARENT} from "./const.ts";
+import {STORE_NAME} from "./const.ts";
+import {createFSCore, type FSCore} from "./core.ts";
 import type {DBFileEntry, DBFolderEntry} from "./db-entry.ts";
 import {now, ensureParentDirs, createDBFolderEntry, putEntryByPath, getEntryByPath, createDBFileEntry} from "./db-entry.ts";
-import type {AbsoluteFolderPath} from '../../path.ts';
+import type {AbsoluteFolderPath, AbsolutePath} from '../../path.ts';
 
 describe('ensureParentDirs', () => {
     const DB_NAME = 'test-ensure-parent-dirs';
+    let core: FSCore;
     let db: IDBPDatabase;
 
     beforeEach(async () => {
-        db = await openDB(DB_NAME, 1, {
-            upgrade(db) {
-                const store = db.createObjectStore(STORE_NAME);
-                store.createIndex(INDEX_BY_PARENT, 'parent', {unique: false});
-            },
-        });
+        core = createFSCore(DB_NAME);
+        db = await core.getDB();
     });
 
+    async function ensure(path: AbsolutePath): Promise<AbsoluteFolderPath[]> {
+        const tx = await core.transaction('readwrite');
+        const created = await ensureParentDirs(core, tx, path);
+        await core.commit(tx);
+        return created;
+    }
+
     afterEach(async () => {
-        db.close();
-        await deleteDB(DB_NAME);
+        await core.reset();
     });
 
     context('when parent directories do not exist', () => {
         it('should create a single parent directory', async () => {
-            await ensureParentDirs(db, '/foo/bar.txt');
+            await ensure('/foo/bar.txt');
 
             const entry = await getEntryByPath(db, "/foo/");
             assert.isNotNull(entry);
@@ -39,7 +43,7 @@ describe('ensureParentDirs', () => {
         });
 
         it('should create multiple nested parent directories', async () => {
-            await ensureParentDirs(db, '/a/b/c/file.txt');
+            await ensure('/a/b/c/file.txt');
 
             const entryA = await getEntryByPath(db, "/a/");
             const entryB = await getEntryByPath(db, "/a/b/");
@@ -58,9 +62,19 @@ describe('ensureParentDirs', () => {
             assert.strictEqual(entryC.parent, '/a/b');
         });
 
+        it('should assign a distinct ino to each created directory', async () => {
+            await ensure('/a/b/file.txt');
+
+            const entryA = await getEntryByPath(db, "/a/");
+            const entryB = await getEntryByPath(db, "/a/b/");
+            assert.isNotNull(entryA);
+            assert.isNotNull(entryB);
+            assert.notStrictEqual(entryA.ino, entryB.ino);
+        });
+
         it('should set mtime on created directories', async () => {
             const before = now();
-            await ensureParentDirs(db, '/foo/bar.txt');
+            await ensure('/foo/bar.txt');
             const after = now();
 
             const entry = await getEntryByPath(db, "/foo/");
@@ -72,11 +86,11 @@ describe('ensureParentDirs', () => {
 
     context('when parent directories already exist', () => {
         it('should not modify existing folder', async () => {
-            const existing_entry: DBFolderEntry = createDBFolderEntry("/foo/");
+            const existing_entry: DBFolderEntry = createDBFolderEntry("/foo/", 100);
             existing_entry.mtime = 1000;
             await putEntryByPath(db, "/foo/", existing_entry);
 
-            await ensureParentDirs(db, '/foo/bar.txt');
+            await ensure('/foo/bar.txt');
 
             const entry = await getEntryByPath(db, "/foo/");
             assert.isNotNull(entry);
@@ -84,14 +98,15 @@ describe('ensureParentDirs', () => {
         });
 
         it('should create only missing directories in a partial path', async () => {
-            const existing_entry: DBFolderEntry = createDBFolderEntry("/a/");
+            const existing_entry: DBFolderEntry = createDBFolderEntry("/a/", 100);
             existing_entry.mtime = 1000;
             await putEntryByPath(db, "/a/", existing_entry);
 
-            await ensureParentDirs(db, '/a/b/c/file.txt');
+            await ensure('/a/b/c/file.txt');
 
             const entryA = await getEntryByPath(db, "/a/");
-            assert.strictEqual(entryA?.mtime, 1000);
+            assert.strictEqual(entryA?.ino, 100);
+            assert.isAbove(entryA?.mtime ?? 0, 1000);
 
             const entryB = await getEntryByPath(db, "/a/b/");
             assert.strictEqual(entryB?.type, 'folder');
@@ -103,11 +118,11 @@ describe('ensureParentDirs', () => {
 
     context('when a file exists in the path', () => {
         it('should throw ENOTDIR when a file blocks the path', async () => {
-            const file_entry: DBFileEntry = createDBFileEntry("/foo", new Uint8Array([1, 2, 3]));
+            const file_entry: DBFileEntry = createDBFileEntry("/foo", 100, 3);
             await putEntryByPath(db, "/foo", file_entry);
 
             try {
-                await ensureParentDirs(db, '/foo/bar.txt');
+                await ensure('/foo/bar.txt');
                 assert.fail('Expected ENOTDIR error');
             } catch (err) {
                 if(!assertFSError(err, 'ENOTDIR')) {
@@ -120,14 +135,14 @@ describe('ensureParentDirs', () => {
         });
 
         it('should throw ENOTDIR when a file blocks a nested path', async () => {
-            const folder_entry = createDBFolderEntry("/a/");
+            const folder_entry = createDBFolderEntry("/a/", 100);
             await putEntryByPath(db, "/a/", folder_entry);
 
-            const file_entry = createDBFileEntry("/a/b", new Uint8Array());
+            const file_entry = createDBFileEntry("/a/b", 101, 0);
             await putEntryByPath(db, "/a/b", file_entry);
 
             try {
-                await ensureParentDirs(db, '/a/b/c/file.txt');
+                await ensure('/a/b/c/file.txt');
                 assert.fail('Expected ENOTDIR error');
             } catch (err) {
                 assertFSError(err, 'ENOTDIR');
@@ -140,14 +155,14 @@ describe('ensureParentDirs', () => {
 
     context('edge cases', () => {
         it('should handle file directly in root (no parent dirs needed)', async () => {
-            await ensureParentDirs(db, '/file.txt');
+            await ensure('/file.txt');
 
             const keys = await db.getAllKeys(STORE_NAME);
-            assert.isEmpty(keys);
+            assert.deepEqual(keys, ['/']);
         });
 
         it('should handle deeply nested paths', async () => {
-            await ensureParentDirs(db, '/a/b/c/d/e/f/g/file.txt');
+            await ensure('/a/b/c/d/e/f/g/file.txt');
 
             const paths: AbsoluteFolderPath[] = ['/a/', '/a/b/', '/a/b/c/', '/a/b/c/d/', '/a/b/c/d/e/', '/a/b/c/d/e/f/', '/a/b/c/d/e/f/g/'];
             for(const path of paths) {
@@ -158,7 +173,7 @@ describe('ensureParentDirs', () => {
         });
 
         it('should not create the file itself', async () => {
-            await ensureParentDirs(db, '/foo/bar.txt');
+            await ensure('/foo/bar.txt');
 
             const file_entry = await getEntryByPath(db, "/foo/bar.txt");
             assert.isNull(file_entry);
@@ -1,11 +1,10 @@
 import type {IDBPDatabase} from "idb";
 
-import type {FSBuffer} from "../../api/index.ts";
-
 import {FSError} from "../../error.ts";
 import type {AbsoluteFilePath, AbsoluteFolderPath, AbsolutePath} from "../../path.ts";
 import {getParentPath} from "../../path.ts";
-import {STORE_NAME} from "./const.ts";
+import {INODE_STORE_NAME, META_NEXT_INO, META_STORE_NAME, STORE_NAME} from "./const.ts";
+import type {FSCore, FSTransaction, FSWriteTransaction} from "./core.ts";
 import {toStoragePath, type StoragePath} from "./path.ts";
 
 export type DBTimeStamp = number;
@@ -14,51 +13,300 @@ export function now(): DBTimeStamp {
     return Date.now();
 }
 
-export interface DBFileEntry {
-    type: 'file';
-    content: FSBuffer;
+/**
+ * Converts a `Date`, or a number of seconds, to a timestamp.
+ *
+ * @returns `null` if `time` is not a valid point in time
+ */
+export function toDBTimeStamp(time: Date | number): DBTimeStamp | null {
+    const timestamp = time instanceof Date ? time.getTime() : time * 1000;
+    return Number.isFinite(timestamp) ? timestamp : null;
+}
+
+/** Allocates a new, never reused id for an entry; a file's content is keyed by it. */
+export async function allocateIno(tx: FSWriteTransaction): Promise<number> {
+    const store = tx.objectStore(META_STORE_NAME);
+
+    const ino = ((await store.get(META_NEXT_INO)) as number | undefined) ?? 1;
+    await store.put(ino + 1, META_NEXT_INO);
+
+    return ino;
+}
+
+/** Records a read of the file with `ino`, under whichever name, if the core tracks access times. */
+export async function recordAccess(core: FSCore, ino: number): Promise<void> {
+    if(!core.options.trackAtime) return;
+
+    const tx = await core.transaction('readwrite');
+
+    const inode = await getInode(tx, ino);
+    if(inode) {
+        await putInode(tx, ino, {...inode, atime: now()});
+    }
+
+    await core.commit(tx);
+}
+
+/** Fields shared by every kind of entry. */
+export interface DBEntryBase {
+    ino: number;
+
+    /** Permission bits, as in `chmod`. */
+    mode: number;
+
+    /** Absent only for the root folder, which keeps it out of `INDEX_BY_PARENT`. */
     parent: StoragePath;
+
+    /** Last read of the content; only updated when access times are tracked. */
+    atime: DBTimeStamp;
+    /** Last change of the content. */
     mtime: DBTimeStamp;
+    /** Last change of the content or of the metadata. */
+    ctime: DBTimeStamp;
+    birthtime: DBTimeStamp;
 }
 
-export function createDBFileEntry(path: AbsoluteFilePath, content: FSBuffer): DBFileEntry {
+/**
+ * A file as seen through one of its names.
+ *
+ * Only `type`, `ino` and `parent` are stored with the name, as a `DBFileName`;
+ * the rest is the file's `DBInode`, shared by every hard link to it.
+ * Its content lives in the chunk store, keyed by `ino`.
+ */
+export interface DBFileEntry extends DBEntryBase {
+    type: 'file';
+    size: number;
+
+    /** Number of names of the file. */
+    nlink: number;
+}
+
+/** The record stored for each name of a file. */
+export type DBFileName = Pick<DBFileEntry, 'type' | 'ino' | 'parent'>;
+
+/** The metadata of a file, stored once per `ino` in `INODE_STORE_NAME`. */
+export type DBInode = Omit<DBFileEntry, 'type' | 'ino' | 'parent'>;
+
+export function toDBFileName(entry: DBFileEntry): DBFileName {
+    return {type: entry.type, ino: entry.ino, parent: entry.parent};
+}
+
+export function toDBInode(entry: DBFileEntry): DBInode {
+    const {size, nlink, mode, atime, mtime, ctime, birthtime} = entry;
+    return {size, nlink, mode, atime, mtime, ctime, birthtime};
+}
+
+/** Permission bits of new files, folders and symbolic links. */
+export const DEFAULT_FILE_MODE = 0o644;
+export const DEFAULT_FOLDER_MODE = 0o755;
+export const DEFAULT_SYMLINK_MODE = 0o777;
+
+/** Owner permission bits; as there are no users or groups, only these are checked. */
+export const MODE_READ = 0o400;
+export const MODE_WRITE = 0o200;
+
+function createTimestamps(): Pick<DBEntryBase, 'atime' | 'mtime' | 'ctime' | 'birthtime'> {
+    const timestamp = now();
+    return {atime: timestamp, mtime: timestamp, ctime: timestamp, birthtime: timestamp};
+}
+
+export function createDBFileEntry(path: AbsoluteFilePath, ino: number, size: number): DBFileEntry {
     return {
         type: 'file',
-        content,
+        ino,
+        size,
+        nlink: 1,
+        mode: DEFAULT_FILE_MODE,
         parent: toStoragePath(getParentPath(path)),
-        mtime: now(),
+        ...createTimestamps(),
     };
 }
 
-export interface DBFolderEntry {
+export interface DBFolderEntry extends DBEntryBase {
     type: 'folder';
-    parent: StoragePath;
-    mtime: DBTimeStamp;
+
+    /** Set on the folders created by `tmp`, which are the only ones that `sweepTmp` removes. */
+    temporary?: true;
 }
 
-export function createDBFolderEntry(path: AbsoluteFolderPath): DBFolderEntry {
+export function createDBFolderEntry(path: AbsoluteFolderPath, ino: number): DBFolderEntry {
     return {
         type: 'folder',
+        ino,
+        mode: DEFAULT_FOLDER_MODE,
+        parent: toStoragePath(getParentPath(path)),
+        ...createTimestamps(),
+    };
+}
+
+/** A symbolic link; `target` is kept as given, and a relative one is resolved from the link's folder. */
+export interface DBSymlinkEntry extends DBEntryBase {
+    type: 'symlink';
+    target: string;
+}
+
+export function createDBSymlinkEntry(path: AbsoluteFilePath, ino: number, target: string): DBSymlinkEntry {
+    return {
+        type: 'symlink',
+        ino,
+        target,
+        mode: DEFAULT_SYMLINK_MODE,
         parent: toStoragePath(getParentPath(path)),
-        mtime: now(),
+        ...createTimestamps(),
+    };
+}
+
+/** The root folder always has `ino` 0, which `allocateIno` never hands out. */
+export const ROOT_INO = 0;
+
+export function createDBRootEntry(): Omit<DBFolderEntry, 'parent'> {
+    return {
+        type: 'folder',
+        ino: ROOT_INO,
+        mode: DEFAULT_FOLDER_MODE,
+        ...createTimestamps(),
     };
 }
 
-export type DBEntry = DBFileEntry | DBFolderEntry;
+/** Returns a copy of `entry` with `changes` applied, marked as modified now. */
+export function modifyDBEntry<T extends Pick<DBEntryBase, 'mtime' | 'ctime'>>(entry: T, changes?: Partial<T>): T {
+    const timestamp = now();
+    return {...entry, ...changes, mtime: timestamp, ctime: timestamp};
+}
+
+export type DBEntry = DBFileEntry | DBFolderEntry | DBSymlinkEntry;
+
+/** What the entry store holds: a file is stored as its name only. */
+export type DBRecord = DBFileName | DBFolderEntry | DBSymlinkEntry;
+
+/**
+ * Entry helpers accept either a database, where each call runs in its own transaction,
+ * or a transaction to take part in.
+ */
+export type DBSource = IDBPDatabase | FSTransaction;
+export type DBWriteSource = IDBPDatabase | FSWriteTransaction;
+
+function isTransaction(source: DBSource): source is FSTransaction {
+    return 'mode' in source;
+}
+
+export async function getInode(source: DBSource, ino: number): Promise<DBInode | null> {
+    const inode = isTransaction(source)
+        ? await source.objectStore(INODE_STORE_NAME).get(ino)
+        : await source.get(INODE_STORE_NAME, ino);
 
-export async function getEntryByPath(db: IDBPDatabase, path: AbsoluteFolderPath): Promise<DBFolderEntry|null>;
-export async function getEntryByPath(db: IDBPDatabase, path: AbsoluteFilePath): Promise<DBFileEntry|null>;
-export async function getEntryByPath(db: IDBPDatabase, path: AbsolutePath): Promise<DBEntry|null> {
-    return (await db.get(STORE_NAME, toStoragePath(path))) ?? null;
+    return (inode as DBInode | undefined) ?? null;
 }
 
-export async function putEntryByPath(db: IDBPDatabase, path: AbsoluteFolderPath, entry: DBFolderEntry): Promise<void>;
-export async function putEntryByPath(db: IDBPDatabase, path: AbsoluteFilePath, entry: DBFileEntry): Promise<void>;
-export async function putEntryByPath(db: IDBPDatabase, path: AbsolutePath, entry: DBEntry) {
-    await db.put(STORE_NAME, entry, toStoragePath(path));
+export async function putInode(tx: FSWriteTransaction, ino: number, inode: DBInode): Promise<void> {
+    await tx.objectStore(INODE_STORE_NAME).put(inode, ino);
 }
 
-export async function ensureParentDirs(db: IDBPDatabase, path: AbsolutePath): Promise<AbsoluteFolderPath[]> {
+/** Joins a stored record with its inode, if it is a file. */
+export async function loadEntry(source: DBSource, record: DBRecord): Promise<DBEntry> {
+    if(record.type !== 'file') return record;
+
+    const inode = await getInode(source, record.ino);
+    if(!inode) {
+        throw new Error(`Missing inode ${record.ino}.`);
+    }
+
+    return {...record, ...inode};
+}
+
+/** Reads the entry stored at `key`, along with its inode if it is a file. */
+export async function getEntry(source: DBSource, key: StoragePath): Promise<DBEntry | null> {
+    const record = isTransaction(source)
+        ? await source.objectStore(STORE_NAME).get(key)
+        : await source.get(STORE_NAME, key);
+
+    return record ? await loadEntry(source, record as DBRecord) : null;
+}
+
+/** Stores `entry` at `key`; for a file, its name and its inode are stored apart. */
+export async function putEntry(source: DBWriteSource, key: StoragePath, entry: DBEntry): Promise<void> {
+    const put = (store_name: string, value: unknown, value_key: IDBValidKey) => isTransaction(source)
+        ? source.objectStore(store_name).put(value, value_key)
+        : source.put(store_name, value, value_key);
+
+    if(entry.type === 'file') {
+        await Promise.all([
+            put(STORE_NAME, toDBFileName(entry), key),
+            put(INODE_STORE_NAME, toDBInode(entry), entry.ino),
+        ]);
+    } else {
+        await put(STORE_NAME, entry, key);
+    }
+}
+
+export async function getEntryByPath(source: DBSource, path: AbsoluteFolderPath): Promise<DBFolderEntry|null>;
+export async function getEntryByPath(source: DBSource, path: AbsoluteFilePath): Promise<DBFileEntry|null>;
+export async function getEntryByPath(source: DBSource, path: AbsolutePath): Promise<DBEntry|null> {
+    return await getEntry(source, toStoragePath(path));
+}
+
+export async function putEntryByPath(source: DBWriteSource, path: AbsoluteFolderPath, entry: DBFolderEntry): Promise<void>;
+export async function putEntryByPath(source: DBWriteSource, path: AbsoluteFilePath, entry: DBFileEntry | DBSymlinkEntry): Promise<void>;
+export async function putEntryByPath(source: DBWriteSource, path: AbsolutePath, entry: DBEntry) {
+    await putEntry(source, toStoragePath(path), entry);
+}
+
+/** Throws unless the parent folder of `path` exists; used where parents are not created implicitly. */
+export async function checkParentDir(source: DBSource, path: AbsolutePath, syscall: string): Promise<void> {
+    const parent_path = getParentPath(path);
+    if(parent_path === '/') return;
+
+    const parent = await getEntryByPath(source, parent_path);
+    if(parent == null) {
+        throw FSError.ENOENT(path, syscall);
+    }
+    if(parent.type !== 'folder') {
+        throw FSError.ENOTDIR(parent_path.slice(0, -1), syscall);
+    }
+}
+
+/**
+ * Throws unless `entry` at `path` allows writing, or the core does not enforce permissions.
+ *
+ * @param code `EACCES` when changing the content or the children of `entry`, `EPERM` when removing or renaming it
+ */
+export function checkWritable(core: FSCore, entry: Pick<DBEntry, 'mode'>, path: AbsolutePath, syscall: string, code: 'EACCES' | 'EPERM' = 'EACCES'): void {
+    if(core.options.enforcePermissions === false) return;
+    if(entry.mode & MODE_WRITE) return;
+
+    throw code === 'EPERM' ? FSError.EPERM(path, syscall) : FSError.EACCES(path, syscall);
+}
+
+/** Throws `EACCES` if the parent folder of `path` exists but does not allow adding or removing children. */
+export async function checkParentWritable(core: FSCore, source: DBSource, path: AbsolutePath, syscall: string): Promise<void> {
+    const parent = await getEntryByPath(source, getParentPath(path));
+    if(parent) {
+        checkWritable(core, parent, path, syscall);
+    }
+}
+
+/**
+ * Marks the parent folder of `path` as modified.
+ * Called in the same transaction as any change that adds, removes or renames an entry.
+ */
+export async function touchParentDir(tx: FSWriteTransaction, path: AbsolutePath): Promise<void> {
+    const store = tx.objectStore(STORE_NAME);
+    const key = toStoragePath(getParentPath(path));
+
+    const parent = (await store.get(key)) as DBFolderEntry | undefined;
+    if(parent) {
+        await store.put(modifyDBEntry(parent), key);
+    }
+}
+
+/**
+ * Creates the missing parent folders of `path`.
+ * Throws `EACCES` if the closest existing one does not allow adding children.
+ * Every check is made before the first folder is created, so that a failure leaves `tx` unchanged.
+ *
+ * @returns The folders created, outermost first
+ */
+export async function ensureParentDirs(core: FSCore, tx: FSWriteTransaction, path: AbsolutePath): Promise<AbsoluteFolderPath[]> {
     const segments = path.split('/').filter(Boolean);
     segments.pop();
 
@@ -67,11 +315,16 @@ export async function ensureParentDirs(db: IDBPDatabase, path: AbsolutePath): Pr
     for(const segment of segments) {
         curr_path = (curr_path + segment + '/') as AbsoluteFolderPath;
 
-        const folder_entry = await getEntryByPath(db, curr_path);
+        const folder_entry = await getEntryByPath(tx, curr_path);
         if(folder_entry == null) {
-            const new_entry: DBFolderEntry = createDBFolderEntry(curr_path);
+            if(created.length === 0) {
+                await checkParentWritable(core, tx, curr_path, 'mkdir');
+            }
+
+            const new_entry: DBFolderEntry = createDBFolderEntry(curr_path, await allocateIno(tx));
 
-            await putEntryByPath(db, curr_path, new_entry);
+            await putEntryByPath(tx, curr_path, new_entry);
+            await touchParentDir(tx, curr_path);
             created.push(curr_path);
             continue;
         }
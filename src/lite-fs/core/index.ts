@@ -1,4 +1,12 @@
+export * from "./broadcast.ts";
 export * from "./const.ts";
+export * from "./content.ts";
 export * from "./core.ts";
 export * from "./db-entry.ts";
+export * from "./inode.ts";
 export * from "./path.ts";
+export * from "./registry.ts";
+export * from "./schema.ts";
+export * from "./subtree.ts";
+export * from "./symlink.ts";
+export * from "./walk.ts";
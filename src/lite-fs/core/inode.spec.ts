@@ -0,0 +1,64 @@
+import 'fake-indexeddb/auto';
+
+import {assert} from 'chai';
+
+import {INODE_STORE_NAME} from "./const.ts";
+import {createFSCore, type FSCore} from "./core.ts";
+import {createDBFileEntry, putEntryByPath} from "./db-entry.ts";
+import {readInodes, releaseInodes} from "./inode.ts";
+
+describe('inode', () => {
+    const DB_NAME = 'test-inode';
+    let core: FSCore;
+
+    beforeEach(async () => {
+        core = createFSCore(DB_NAME);
+        await core.reset();
+
+        const tx = await core.transaction('readwrite');
+        for(const ino of [1, 2, 3, 5, 100]) {
+            const entry = createDBFileEntry(`/${ino}.txt`, ino, ino);
+            entry.nlink = ino === 2 ? 2 : 1;
+            await putEntryByPath(tx, `/${ino}.txt`, entry);
+        }
+        await core.commit(tx);
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    describe('readInodes', () => {
+        it('should read close inos as a range, with the keys between them', async () => {
+            const tx = await core.transaction('readonly');
+            const {inodes, range_keys} = await readInodes(tx, [1, 3, 5]);
+            await core.commit(tx);
+
+            assert.deepEqual([...inodes.keys()], [1, 3, 5]);
+            assert.strictEqual(inodes.get(3)?.size, 3);
+            assert.deepEqual(range_keys, [1, 2, 3, 5]);
+        });
+
+        it('should read distant inos one by one', async () => {
+            const tx = await core.transaction('readonly');
+            const {inodes, range_keys} = await readInodes(tx, [1, 100]);
+            await core.commit(tx);
+
+            assert.deepEqual([...inodes.keys()], [1, 100]);
+            assert.isNull(range_keys);
+        });
+    });
+
+    describe('releaseInodes', () => {
+        it('should delete the inodes left without names and keep the others', async () => {
+            const tx = await core.transaction('readwrite');
+            const names = new Map([[1, 1], [2, 1], [3, 1], [5, 1]]);
+            await releaseInodes(tx, names, await readInodes(tx, names.keys()));
+            await core.commit(tx);
+
+            const db = await core.getDB();
+            assert.deepEqual(await db.getAllKeys(INODE_STORE_NAME), [2, 100]);
+            assert.strictEqual((await db.get(INODE_STORE_NAME, 2) as {nlink: number}).nlink, 1);
+        });
+    });
+});
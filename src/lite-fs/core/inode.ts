@@ -0,0 +1,111 @@
+import {INODE_STORE_NAME} from "./const.ts";
+import {deleteContent} from "./content.ts";
+import type {FSTransaction, FSWriteTransaction} from "./core.ts";
+import {now, toDBInode, type DBEntry, type DBFileEntry, type DBInode, type DBRecord} from "./db-entry.ts";
+import type {StoragePath} from "./path.ts";
+
+/**
+ * Inodes read for a set of inos, along with every key stored between the lowest and the highest of them.
+ * `range_keys` is null when the inodes were read one by one.
+ */
+export interface InodeSet {
+    inodes: Map<number, DBInode>;
+    range_keys: number[] | null;
+}
+
+/**
+ * Reads the inodes of `inos`.
+ *
+ * Files created together have close inos, so when `inos` are dense enough, every inode
+ * between the lowest and the highest is read with two requests; otherwise they are read one by one.
+ */
+export async function readInodes(tx: FSTransaction, inos: Iterable<number>): Promise<InodeSet> {
+    const sorted = [...new Set(inos)].sort((a, b) => a - b);
+    const inodes = new Map<number, DBInode>();
+    if(sorted.length === 0) return {inodes, range_keys: []};
+
+    const store = tx.objectStore(INODE_STORE_NAME);
+    const first = sorted[0]!;
+    const last = sorted[sorted.length - 1]!;
+
+    if(last - first + 1 > 2 * sorted.length) {
+        const values = await Promise.all(sorted.map((ino) => store.get(ino)));
+        sorted.forEach((ino, i) => {
+            if(values[i]) inodes.set(ino, values[i] as DBInode);
+        });
+        return {inodes, range_keys: null};
+    }
+
+    const range = IDBKeyRange.bound(first, last);
+    const [keys, values] = await Promise.all([store.getAllKeys(range), store.getAll(range)]);
+
+    const wanted = new Set(sorted);
+    keys.forEach((key, i) => {
+        if(wanted.has(key as number)) inodes.set(key as number, values[i] as DBInode);
+    });
+
+    return {inodes, range_keys: keys as number[]};
+}
+
+/** Joins the files among `records` with their inodes, which are read together. */
+export async function joinInodes(tx: FSTransaction, records: Array<{key: StoragePath; entry: DBRecord}>): Promise<Array<{key: StoragePath; entry: DBEntry}>> {
+    const {inodes} = await readInodes(tx, records.flatMap(({entry}) => entry.type === 'file' ? [entry.ino] : []));
+
+    return records.map(({key, entry}) => ({
+        key,
+        entry: entry.type === 'file' ? {...entry, ...inodes.get(entry.ino)!} : entry,
+    }));
+}
+
+/** Drops one name of `entry`; the inode and the content go with the last one. */
+export async function releaseInode(tx: FSWriteTransaction, entry: DBFileEntry): Promise<void> {
+    await releaseInodes(tx, new Map([[entry.ino, 1]]), {inodes: new Map([[entry.ino, toDBInode(entry)]]), range_keys: null});
+}
+
+/**
+ * Drops `names.get(ino)` names of each inode in `names`, read beforehand with `readInodes`.
+ * Inodes left without names are deleted along with their content,
+ * in as few requests as the keys read with them allow.
+ */
+export async function releaseInodes(tx: FSWriteTransaction, names: Map<number, number>, {inodes, range_keys}: InodeSet): Promise<void> {
+    const store = tx.objectStore(INODE_STORE_NAME);
+    const requests: Array<Promise<unknown>> = [];
+
+    const deleted = new Set<number>();
+    for(const [ino, count] of names) {
+        const inode = inodes.get(ino);
+        if(!inode) continue;
+
+        if(inode.nlink > count) {
+            requests.push(store.put({...inode, nlink: inode.nlink - count, ctime: now()}, ino));
+            continue;
+        }
+
+        deleted.add(ino);
+        requests.push(deleteContent(tx, ino));
+    }
+
+    if(range_keys) {
+        // Delete each run of consecutive keys that are all going, with a single range.
+        let run_start: number | null = null;
+        let run_end = 0;
+
+        for(const key of [...range_keys, null]) {
+            if(key != null && deleted.has(key)) {
+                run_start ??= key;
+                run_end = key;
+                continue;
+            }
+            if(run_start != null) {
+                requests.push(store.delete(IDBKeyRange.bound(run_start, run_end)));
+                run_start = null;
+            }
+        }
+    } else {
+        for(const ino of deleted) {
+            requests.push(store.delete(ino));
+        }
+    }
+
+    await Promise.all(requests);
+}
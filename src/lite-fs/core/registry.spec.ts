@@ -0,0 +1,131 @@
+import 'fake-indexeddb/auto';
+
+import {assert} from 'chai';
+
+import type {WatchEvent} from "../../api/index.ts";
+import {STORE_NAME} from "./const.ts";
+import type {FSCore} from "./core.ts";
+import {acquireFSCore} from "./registry.ts";
+import {createFileOps} from "../file-ops.ts";
+import {createStreamOps} from "../stream-ops.ts";
+
+describe('registry', () => {
+    const DB_NAME = 'test-registry';
+    let first: FSCore;
+    let second: FSCore;
+
+    beforeEach(async () => {
+        first = acquireFSCore(DB_NAME);
+        second = acquireFSCore(DB_NAME, {trackAtime: true});
+        await first.reset();
+    });
+
+    afterEach(async () => {
+        await first.reset().catch(() => {});
+        await first.close();
+        await second.close();
+    });
+
+    it('should share the connection between cores of the same name', async () => {
+        assert.strictEqual(await first.getDB(), await second.getDB());
+    });
+
+    it('should keep the options of each core', () => {
+        assert.isUndefined(first.options.trackAtime);
+        assert.isTrue(second.options.trackAtime);
+    });
+
+    it('should deliver the events of one core to the subscribers of the other', () => {
+        const events: WatchEvent[] = [];
+        second.subscribe((event) => events.push(event));
+
+        first.emit({eventType: 'change', filename: '/a.txt'});
+
+        assert.deepEqual(events, [{eventType: 'change', filename: '/a.txt'}]);
+    });
+
+    it('should reset the database while the other core is connected', async () => {
+        const db = await second.getDB();
+        await db.put(STORE_NAME, {type: 'folder'}, '/kept/');
+
+        await first.reset();
+
+        const reopened = await second.getDB();
+        assert.notStrictEqual(reopened, db);
+        assert.isUndefined(await reopened.get(STORE_NAME, '/kept/'));
+    });
+
+    context('close', () => {
+        it('should keep the connection open for the cores not closed yet', async () => {
+            const db = await first.getDB();
+            await second.close();
+
+            assert.strictEqual(await first.getDB(), db);
+        });
+
+        it('should reject the use of a closed core', async () => {
+            await second.close();
+
+            let error: unknown = null;
+            try {
+                await second.transaction('readonly');
+            } catch(e) {
+                error = e;
+            }
+
+            assert.instanceOf(error, Error);
+        });
+
+        it('should close the connection along with the last core', async () => {
+            const db = await first.getDB();
+            await first.close();
+            await second.close();
+
+            const third = acquireFSCore(DB_NAME);
+            try {
+                assert.notStrictEqual(await third.getDB(), db);
+            } finally {
+                await third.reset();
+                await third.close();
+            }
+        });
+
+        it('should stop emitting the events of open handles and streams', async () => {
+            const handle = await createFileOps(first).open('/a.txt', 'w');
+            await handle.write('data');
+            const writer = createStreamOps(first).createWriteStream('/b.txt').getWriter();
+            await writer.write('data');
+
+            const events: WatchEvent[] = [];
+            second.subscribe((event) => events.push(event));
+
+            await first.close();
+            await handle.close();
+            await writer.close().catch(() => {});
+            first.emit({eventType: 'change', filename: '/c.txt'});
+
+            assert.deepEqual(events, []);
+        });
+
+        it('should not emit after the last core is closed', async () => {
+            await first.close();
+            await second.close();
+
+            assert.doesNotThrow(() => second.emit({eventType: 'change', filename: '/a.txt'}));
+        });
+
+        it('should reject subscriptions to a closed core', async () => {
+            await second.close();
+
+            assert.throws(() => second.subscribe(() => {}));
+        });
+
+        it('should count a repeated close once', async () => {
+            const db = await first.getDB();
+            await second.close();
+            await second.close();
+
+            assert.strictEqual(await first.getDB(), db);
+        });
+    });
+});
@@ -0,0 +1,80 @@
+import {createFSCore, type FSCore, type FSTransaction, type FSWriteTransaction} from "./core.ts";
+import type {LiteFSOptions} from "../../api/index.ts";
+
+interface SharedCore {
+    core: FSCore;
+    /** Number of acquired cores that are not closed yet. */
+    refs: number;
+}
+
+const shared_cores = new Map<string, SharedCore>();
+
+/**
+ * Returns a core of `db_name` that shares its connection and subscribers with every other core acquired
+ * for the same name in this context, so that each sees the changes and events of the others.
+ * The shared core is closed along with the last of them.
+ *
+ * `options` only apply to the returned core, except for `broadcast`, which is decided by the first one.
+ */
+export function acquireFSCore(db_name: string, options: LiteFSOptions = {}): FSCore {
+    let shared = shared_cores.get(db_name);
+    if(!shared) {
+        shared = {core: createFSCore(db_name, options), refs: 0};
+        shared_cores.set(db_name, shared);
+    }
+
+    const local_shared = shared;
+    const {core} = local_shared;
+    ++local_shared.refs;
+
+    let closed = false;
+    const checkOpen = (): void => {
+        if(closed) {
+            throw new Error(`The file system "${db_name}" is closed.`);
+        }
+    };
+
+    async function transaction(mode: 'readonly'): Promise<FSTransaction>;
+    async function transaction(mode: 'readwrite'): Promise<FSWriteTransaction>;
+    async function transaction(mode: 'readonly' | 'readwrite'): Promise<FSTransaction> {
+        checkOpen();
+        return mode === 'readonly' ? core.transaction(mode) : core.transaction(mode);
+    }
+
+    return {
+        options,
+        inTransaction: false,
+        async getDB() {
+            checkOpen();
+            return core.getDB();
+        },
+        transaction,
+        commit: core.commit,
+        async dumpFiles() {
+            checkOpen();
+            return core.dumpFiles();
+        },
+        async reset() {
+            checkOpen();
+            await core.reset();
+        },
+        async close() {
+            if(closed) return;
+            closed = true;
+
+            if(--local_shared.refs > 0) return;
+
+            shared_cores.delete(db_name);
+            await core.close();
+        },
+        emit(event) {
+            // Handles and streams may still be closed, and flush their events, after the core is.
+            if(closed) return;
+            core.emit(event);
+        },
+        subscribe(callback) {
+            checkOpen();
+            return core.subscribe(callback);
+        },
+    };
+}
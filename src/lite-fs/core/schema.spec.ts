@@ -0,0 +1,272 @@
+import 'fake-indexeddb/auto';
+
+import {assert} from 'chai';
+import {deleteDB, openDB} from 'idb';
+
+import {CHUNK_SIZE, CHUNK_STORE_NAME, INDEX_BY_PARENT, INODE_STORE_NAME, META_NEXT_INO, META_STORE_NAME, STORE_NAME} from "./const.ts";
+import type {ChunkKey} from "./content.ts";
+import {createFSCore} from "./core.ts";
+import {createFileOps} from "../file-ops.ts";
+import {createDirOps} from "../dir-ops.ts";
+import {createStatOps} from "../stat-ops.ts";
+
+describe('upgradeDB', () => {
+    const DB_NAME = 'test-upgrade-db';
+
+    beforeEach(async () => {
+        await deleteDB(DB_NAME);
+    });
+
+    afterEach(async () => {
+        await deleteDB(DB_NAME);
+    });
+
+    context('from version 1', () => {
+        const large_content = new Uint8Array(CHUNK_SIZE * 2 + 3).fill(42);
+
+        beforeEach(async () => {
+            const db = await openDB(DB_NAME, 1, {
+                upgrade(db) {
+                    const store = db.createObjectStore(STORE_NAME);
+                    store.createIndex(INDEX_BY_PARENT, 'parent', {unique: false});
+                },
+            });
+
+            await db.put(STORE_NAME, {type: 'folder', parent: '/', mtime: 1000}, '/docs');
+            await db.put(STORE_NAME, {type: 'file', parent: '/docs', mtime: 2000, content: new TextEncoder().encode("hello")}, '/docs/a.txt');
+            await db.put(STORE_NAME, {type: 'file', parent: '/', mtime: 3000, content: large_content}, '/large.bin');
+            db.close();
+        });
+
+        it('should keep file contents readable', async () => {
+            const core = createFSCore(DB_NAME);
+            const file_ops = createFileOps(core);
+
+            assert.strictEqual(await file_ops.readFile('/docs/a.txt', 'utf-8'), "hello");
+            assert.deepEqual(await file_ops.readFile('/large.bin'), large_content);
+
+            await core.reset();
+        });
+
+        it('should move contents out of the entries', async () => {
+            const core = createFSCore(DB_NAME);
+            const db = await core.getDB();
+
+            const entry = await db.get(STORE_NAME, '/large.bin') as Record<string, unknown>;
+            assert.notProperty(entry, 'content');
+
+            const inode = await db.get(INODE_STORE_NAME, entry['ino'] as number) as Record<string, unknown>;
+            assert.strictEqual(inode['size'], large_content.byteLength);
+            assert.strictEqual(inode['mtime'], 3000);
+
+            assert.strictEqual(await db.count(CHUNK_STORE_NAME), 4);
+
+            await core.reset();
+        });
+
+        it('should assign a distinct ino to every file', async () => {
+            const core = createFSCore(DB_NAME);
+            const db = await core.getDB();
+
+            const a = await db.get(STORE_NAME, '/docs/a.txt') as Record<string, unknown>;
+            const large = await db.get(STORE_NAME, '/large.bin') as Record<string, unknown>;
+            assert.isNumber(a['ino']);
+            assert.isNumber(large['ino']);
+            assert.notStrictEqual(a['ino'], large['ino']);
+
+            await core.reset();
+        });
+
+        it('should keep the folder structure', async () => {
+            const core = createFSCore(DB_NAME);
+            const dir_ops = createDirOps(core);
+
+            assert.deepEqual(await dir_ops.readdir('/'), ['docs', 'large.bin']);
+            assert.deepEqual(await dir_ops.readdir('/docs/'), ['a.txt']);
+
+            await core.reset();
+        });
+    });
+
+    context('from version 2', () => {
+        beforeEach(async () => {
+            const db = await openDB(DB_NAME, 2, {
+                upgrade(db) {
+                    const store = db.createObjectStore(STORE_NAME);
+                    store.createIndex(INDEX_BY_PARENT, 'parent', {unique: false});
+                    db.createObjectStore(CHUNK_STORE_NAME);
+                },
+            });
+
+            await db.put(STORE_NAME, {type: 'file', parent: '/', mtime: 1000, size: CHUNK_SIZE + 2}, '/a.bin');
+            await db.put(CHUNK_STORE_NAME, new Uint8Array(CHUNK_SIZE).fill(1), ['/a.bin', 0]);
+            await db.put(CHUNK_STORE_NAME, new Uint8Array([2, 2]), ['/a.bin', 1]);
+            await db.put(STORE_NAME, {type: 'file', parent: '/', mtime: 2000, size: 0}, '/empty.txt');
+            db.close();
+        });
+
+        it('should re-key chunks by ino', async () => {
+            const core = createFSCore(DB_NAME);
+            const db = await core.getDB();
+
+            const keys = await db.getAllKeys(CHUNK_STORE_NAME) as ChunkKey[];
+            assert.strictEqual(keys.length, 2);
+            assert.isTrue(keys.every(([ino]) => typeof ino === 'number'));
+
+            await core.reset();
+        });
+
+        it('should keep file contents readable', async () => {
+            const core = createFSCore(DB_NAME);
+            const file_ops = createFileOps(core);
+
+            const content = await file_ops.readFile('/a.bin');
+            assert.strictEqual(content.byteLength, CHUNK_SIZE + 2);
+            assert.strictEqual(content[0], 1);
+            assert.strictEqual(content[CHUNK_SIZE + 1], 2);
+            assert.strictEqual(await file_ops.readFile('/empty.txt', 'utf-8'), "");
+
+            await core.reset();
+        });
+    });
+
+    context('from version 3', () => {
+        beforeEach(async () => {
+            const db = await openDB(DB_NAME, 3, {
+                upgrade(db) {
+                    const store = db.createObjectStore(STORE_NAME);
+                    store.createIndex(INDEX_BY_PARENT, 'parent', {unique: false});
+                    db.createObjectStore(CHUNK_STORE_NAME);
+                    db.createObjectStore(META_STORE_NAME);
+                },
+            });
+
+            await db.put(STORE_NAME, {type: 'folder', parent: '/', mtime: 1000}, '/docs');
+            await db.put(STORE_NAME, {type: 'file', ino: 1, parent: '/docs', mtime: 2000, size: 5}, '/docs/a.txt');
+            await db.put(CHUNK_STORE_NAME, new TextEncoder().encode("hello"), [1, 0]);
+            await db.put(META_STORE_NAME, 2, META_NEXT_INO);
+            db.close();
+        });
+
+        it('should fill in timestamps from mtime', async () => {
+            const core = createFSCore(DB_NAME);
+            const stat_ops = createStatOps(core);
+
+            const stats = await stat_ops.stat('/docs/a.txt');
+            assert.strictEqual(stats.mtimeMs, 2000);
+            assert.strictEqual(stats.ctimeMs, 2000);
+            assert.strictEqual(stats.atimeMs, 2000);
+            assert.strictEqual(stats.birthtimeMs, 2000);
+            assert.strictEqual(stats.size, 5);
+            assert.strictEqual(stats.ino, 1);
+
+            assert.strictEqual((await stat_ops.stat('/docs/')).birthtimeMs, 1000);
+
+            await core.reset();
+        });
+
+        it('should assign folders an ino not used by any file', async () => {
+            const core = createFSCore(DB_NAME);
+            const stat_ops = createStatOps(core);
+
+            assert.strictEqual((await stat_ops.stat('/docs/')).ino, 2);
+
+            const file_ops = createFileOps(core);
+            await file_ops.writeFile('/docs/b.txt', "b");
+            assert.strictEqual((await stat_ops.stat('/docs/b.txt')).ino, 3);
+
+            await core.reset();
+        });
+
+        it('should store an entry for the root folder', async () => {
+            const core = createFSCore(DB_NAME);
+            const db = await core.getDB();
+
+            const root = await db.get(STORE_NAME, '/') as Record<string, unknown>;
+            assert.strictEqual(root['type'], 'folder');
+            assert.strictEqual(root['ino'], 0);
+            assert.notProperty(root, 'parent');
+
+            const dir_ops = createDirOps(core);
+            assert.deepEqual(await dir_ops.readdir('/'), ['docs']);
+
+            await core.reset();
+        });
+    });
+
+    context('from version 5', () => {
+        beforeEach(async () => {
+            const db = await openDB(DB_NAME, 5, {
+                upgrade(db) {
+                    const store = db.createObjectStore(STORE_NAME);
+                    store.createIndex(INDEX_BY_PARENT, 'parent', {unique: false});
+                    db.createObjectStore(CHUNK_STORE_NAME);
+                    db.createObjectStore(META_STORE_NAME);
+                },
+            });
+
+            const times = {atime: 1000, mtime: 1000, ctime: 1000, birthtime: 1000};
+            await db.put(STORE_NAME, {type: 'folder', ino: 0, ...times}, '/');
+            await db.put(STORE_NAME, {type: 'folder', ino: 1, parent: '/', ...times}, '/docs');
+            await db.put(STORE_NAME, {type: 'file', ino: 2, parent: '/docs', size: 0, ...times}, '/docs/a.txt');
+            await db.put(META_STORE_NAME, 3, META_NEXT_INO);
+            db.close();
+        });
+
+        it('should give every entry the default mode', async () => {
+            const core = createFSCore(DB_NAME);
+            const stat_ops = createStatOps(core);
+
+            assert.strictEqual((await stat_ops.stat('/')).mode & 0o7777, 0o755);
+            assert.strictEqual((await stat_ops.stat('/docs/')).mode & 0o7777, 0o755);
+            assert.strictEqual((await stat_ops.stat('/docs/a.txt')).mode & 0o7777, 0o644);
+
+            await core.reset();
+        });
+    });
+
+    context('from version 6', () => {
+        beforeEach(async () => {
+            const db = await openDB(DB_NAME, 6, {
+                upgrade(db) {
+                    const store = db.createObjectStore(STORE_NAME);
+                    store.createIndex(INDEX_BY_PARENT, 'parent', {unique: false});
+                    db.createObjectStore(CHUNK_STORE_NAME);
+                    db.createObjectStore(META_STORE_NAME);
+                },
+            });
+
+            const times = {atime: 1000, mtime: 2000, ctime: 3000, birthtime: 500};
+            await db.put(STORE_NAME, {type: 'folder', ino: 0, mode: 0o755, ...times}, '/');
+            await db.put(STORE_NAME, {type: 'file', ino: 1, parent: '/', size: 5, mode: 0o600, ...times}, '/a.txt');
+            await db.put(CHUNK_STORE_NAME, new TextEncoder().encode("hello"), [1, 0]);
+            await db.put(META_STORE_NAME, 2, META_NEXT_INO);
+            db.close();
+        });
+
+        it('should move the metadata of files into inodes', async () => {
+            const core = createFSCore(DB_NAME);
+            const db = await core.getDB();
+
+            assert.deepEqual(await db.get(STORE_NAME, '/a.txt'), {type: 'file', ino: 1, parent: '/'});
+            assert.deepEqual(await db.get(INODE_STORE_NAME, 1), {size: 5, nlink: 1, mode: 0o600, atime: 1000, mtime: 2000, ctime: 3000, birthtime: 500});
+
+            await core.reset();
+        });
+
+        it('should keep files readable', async () => {
+            const core = createFSCore(DB_NAME);
+            const file_ops = createFileOps(core);
+            const stat_ops = createStatOps(core);
+
+            assert.strictEqual(await file_ops.readFile('/a.txt', 'utf-8'), "hello");
+
+            const stats = await stat_ops.stat('/a.txt');
+            assert.strictEqual(stats.nlink, 1);
+            assert.strictEqual(stats.mode & 0o7777, 0o600);
+            assert.strictEqual(stats.mtimeMs, 2000);
+
+            await core.reset();
+        });
+    });
+});
@@ -0,0 +1,179 @@
+import type {IDBPDatabase, IDBPTransaction} from "idb";
+
+import type {FSBuffer} from "../../api/index.ts";
+
+import {CHUNK_STORE_NAME, INDEX_BY_PARENT, INODE_STORE_NAME, META_STORE_NAME, STORE_NAME} from "./const.ts";
+import {putContent} from "./content.ts";
+import {
+    allocateIno,
+    createDBRootEntry,
+    DEFAULT_FILE_MODE,
+    DEFAULT_FOLDER_MODE,
+    toDBFileName,
+    toDBInode,
+    type DBEntry,
+    type DBFileEntry,
+    type DBRecord,
+} from "./db-entry.ts";
+import type {StoragePath} from "./path.ts";
+
+export const DB_VERSION = 7;
+
+type UpgradeTransaction = IDBPTransaction<unknown, string[], 'versionchange'>;
+
+/** Version 1 kept the whole content of a file inside its entry. */
+interface V1FileEntry {
+    type: 'file';
+    content: FSBuffer;
+    parent: StoragePath;
+    mtime: number;
+}
+
+/** Version 2 kept the content in chunks keyed by `[path, index]`. */
+interface V2FileEntry {
+    type: 'file';
+    size: number;
+    parent: StoragePath;
+    mtime: number;
+}
+
+async function readV2Chunks(tx: UpgradeTransaction, key: StoragePath): Promise<Array<[index: number, chunk: FSBuffer]>> {
+    const store = tx.objectStore(CHUNK_STORE_NAME);
+    const range = IDBKeyRange.bound([key, 0], [key, Infinity]);
+
+    const chunks: Array<[index: number, chunk: FSBuffer]> = [];
+    for(let cursor = await store.openCursor(range); cursor; cursor = await cursor.continue()) {
+        const [, index] = cursor.key as [StoragePath, number];
+        chunks.push([index, cursor.value as FSBuffer]);
+    }
+
+    await store.delete(range);
+    return chunks;
+}
+
+/** Assigns an `ino` to every file, and keys its content chunks by it. */
+async function migrateToInodes(tx: UpgradeTransaction): Promise<void> {
+    const store = tx.objectStore(STORE_NAME);
+    const chunk_store = tx.objectStore(CHUNK_STORE_NAME);
+
+    for(let cursor = await store.openCursor(); cursor; cursor = await cursor.continue()) {
+        const entry = cursor.value as DBEntry | V1FileEntry | V2FileEntry;
+        if(entry.type !== 'file' || 'ino' in entry) continue;
+
+        const key = cursor.key as StoragePath;
+        const ino = await allocateIno(tx);
+
+        if('content' in entry) {
+            const {content, ...rest} = entry;
+            await putContent(tx, ino, content);
+            await cursor.update({...rest, ino, size: content.byteLength});
+            continue;
+        }
+
+        for(const [index, chunk] of await readV2Chunks(tx, key)) {
+            await chunk_store.put(chunk, [ino, index]);
+        }
+        await cursor.update({...entry, ino});
+    }
+}
+
+/** Version 3 entries only had `mtime`, and folders had no `ino`. */
+type V3Entry = Omit<DBEntry, 'ino' | 'mode' | 'atime' | 'ctime' | 'birthtime'> & {ino?: number};
+
+/** Assigns an `ino` to every folder, and fills in the timestamps missing before version 4 from `mtime`. */
+async function migrateEntryMetadata(tx: UpgradeTransaction): Promise<void> {
+    const store = tx.objectStore(STORE_NAME);
+
+    for(let cursor = await store.openCursor(); cursor; cursor = await cursor.continue()) {
+        const entry = cursor.value as V3Entry | DBEntry;
+        if('birthtime' in entry) continue;
+
+        const {mtime} = entry;
+        await cursor.update({
+            ...entry,
+            ino: entry.ino ?? await allocateIno(tx),
+            atime: mtime,
+            ctime: mtime,
+            birthtime: mtime,
+        });
+    }
+}
+
+/** Version 5 entries had no `mode`. */
+type V5Entry = Omit<DBEntry, 'mode'>;
+
+/** Gives every entry the default mode for its type. */
+async function migrateEntryModes(tx: UpgradeTransaction): Promise<void> {
+    const store = tx.objectStore(STORE_NAME);
+
+    for(let cursor = await store.openCursor(); cursor; cursor = await cursor.continue()) {
+        const entry = cursor.value as V5Entry | DBEntry;
+        if('mode' in entry) continue;
+
+        await cursor.update({
+            ...entry,
+            mode: entry.type === 'file' ? DEFAULT_FILE_MODE : DEFAULT_FOLDER_MODE,
+        });
+    }
+}
+
+/** Version 6 kept the metadata of a file with its name, as there was only one. */
+type V6FileEntry = Omit<DBFileEntry, 'nlink'>;
+
+/** Moves the metadata of every file out of its entry, into an inode with a single name. */
+async function migrateFileInodes(tx: UpgradeTransaction): Promise<void> {
+    const store = tx.objectStore(STORE_NAME);
+    const inode_store = tx.objectStore(INODE_STORE_NAME);
+
+    for(let cursor = await store.openCursor(); cursor; cursor = await cursor.continue()) {
+        const entry = cursor.value as V6FileEntry | DBRecord;
+        if(entry.type !== 'file' || !('size' in entry)) continue;
+
+        const file_entry = {...entry, nlink: 1};
+        await inode_store.put(toDBInode(file_entry), entry.ino);
+        await cursor.update(toDBFileName(file_entry));
+    }
+}
+
+/**
+ * Brings a database created by any earlier version up to `DB_VERSION`.
+ * Object stores are created synchronously; data migrations then run in order on `tx`.
+ */
+export async function upgradeDB(db: IDBPDatabase, old_version: number, tx: UpgradeTransaction): Promise<void> {
+    if(old_version < 1) {
+        const store = db.createObjectStore(STORE_NAME);
+        store.createIndex(INDEX_BY_PARENT, 'parent', {unique: false});
+    }
+
+    if(old_version < 2) {
+        db.createObjectStore(CHUNK_STORE_NAME);
+    }
+
+    if(old_version < 3) {
+        db.createObjectStore(META_STORE_NAME);
+    }
+
+    if(old_version < 7) {
+        db.createObjectStore(INODE_STORE_NAME);
+    }
+
+    if(old_version >= 1 && old_version < 3) {
+        await migrateToInodes(tx);
+    }
+
+    if(old_version >= 1 && old_version < 4) {
+        await migrateEntryMetadata(tx);
+    }
+
+    if(old_version < 5) {
+        await tx.objectStore(STORE_NAME).put(createDBRootEntry(), '/');
+    }
+
+    if(old_version >= 1 && old_version < 6) {
+        await migrateEntryModes(tx);
+    }
+
+    if(old_version >= 1 && old_version < 7) {
+        await migrateFileInodes(tx);
+    }
+}
@@ -0,0 +1,71 @@
+import 'fake-indexeddb/auto';
+
+import {assert} from 'chai';
+
+import {STORE_NAME} from "./const.ts";
+import {createFSCore, type FSCore} from "./core.ts";
+import {createDBFileEntry, createDBFolderEntry, putEntryByPath} from "./db-entry.ts";
+import {readSubtree, subtreeRange} from "./subtree.ts";
+import {isFolderPath, type AbsolutePath} from '../../path.ts';
+
+describe('subtree', () => {
+    const DB_NAME = 'test-subtree';
+    let core: FSCore;
+
+    beforeEach(async () => {
+        core = createFSCore(DB_NAME);
+        await core.reset();
+
+        const tx = await core.transaction('readwrite');
+        let ino = 1;
+        for(const path of ['/a/', '/a/b/', '/a/b/c.txt', '/a/d.txt', '/a.txt', '/a0/', '/ab/', '/ab/e.txt'] satisfies AbsolutePath[]) {
+            if(isFolderPath(path)) {
+                await putEntryByPath(tx, path, createDBFolderEntry(path, ino++));
+            } else {
+                await putEntryByPath(tx, path, createDBFileEntry(path, ino++, 0));
+            }
+        }
+        await core.commit(tx);
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    describe('subtreeRange', () => {
+        it('should cover the contents of a folder, but not the folder or its siblings', async () => {
+            const tx = await core.transaction('readonly');
+            const keys = await tx.objectStore(STORE_NAME).getAllKeys(subtreeRange('/a'));
+            await core.commit(tx);
+
+            assert.deepEqual(keys, ['/a/b', '/a/b/c.txt', '/a/d.txt']);
+        });
+
+        it('should cover everything but the root itself for the root', async () => {
+            const tx = await core.transaction('readonly');
+            const keys = await tx.objectStore(STORE_NAME).getAllKeys(subtreeRange('/'));
+            await core.commit(tx);
+
+            assert.notInclude(keys, '/');
+            assert.lengthOf(keys, 8);
+        });
+    });
+
+    describe('readSubtree', () => {
+        it('should read each folder before its contents', async () => {
+            const tx = await core.transaction('readonly');
+            const entries = await readSubtree(tx, '/a');
+            await core.commit(tx);
+
+            assert.deepEqual(entries.map(({key}) => key), ['/a/b', '/a/b/c.txt', '/a/d.txt']);
+            assert.deepEqual(entries.map(({entry}) => entry.parent), ['/a', '/a/b', '/a']);
+        });
+
+        it('should return nothing for an empty or missing folder', async () => {
+            const tx = await core.transaction('readonly');
+            assert.deepEqual(await readSubtree(tx, '/a0'), []);
+            assert.deepEqual(await readSubtree(tx, '/missing'), []);
+            await core.commit(tx);
+        });
+    });
+});
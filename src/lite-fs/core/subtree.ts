@@ -0,0 +1,28 @@
+import {STORE_NAME} from "./const.ts";
+import type {FSTransaction} from "./core.ts";
+import type {DBRecord} from "./db-entry.ts";
+import type {StoragePath} from "./path.ts";
+
+/**
+ * Key range of every entry below the folder stored at `key`, excluding the folder itself.
+ *
+ * Keys are paths, so a subtree is contiguous: `/a/...` sorts between `/a/` and `/a0`, as `0` follows `/`.
+ */
+export function subtreeRange(key: StoragePath): IDBKeyRange {
+    if(key === '/') return IDBKeyRange.bound('/', '0', true, true);
+    return IDBKeyRange.bound(`${key}/`, `${key}0`, false, true);
+}
+
+/**
+ * Reads every entry below the folder stored at `key` with two requests, whatever the size of the subtree.
+ * Entries are ordered by key, so each folder comes before its contents.
+ * Files come as their stored names; see `joinInodes` for their metadata.
+ */
+export async function readSubtree(tx: FSTransaction, key: StoragePath): Promise<Array<{key: StoragePath; entry: DBRecord}>> {
+    const store = tx.objectStore(STORE_NAME);
+    const range = subtreeRange(key);
+
+    const [keys, entries] = await Promise.all([store.getAllKeys(range), store.getAll(range)]);
+
+    return keys.map((child_key, i) => ({key: child_key as StoragePath, entry: entries[i] as DBRecord}));
+}
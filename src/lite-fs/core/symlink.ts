@@ -0,0 +1,91 @@
+import {FSError} from "../../error.ts";
+import {getParentPath, isFolderPath, joinPath, type AbsoluteFilePath, type AbsoluteFolderPath, type AbsolutePath} from "../../path.ts";
+import {getEntry, type DBEntry, type DBFileEntry, type DBFolderEntry, type DBSource, type DBSymlinkEntry} from "./db-entry.ts";
+import {toStoragePath} from "./path.ts";
+
+/** Number of symbolic links followed while resolving one path before giving up with `ELOOP`, as in Linux. */
+export const MAX_SYMLINK_HOPS = 40;
+
+/**
+ * Replaces the link at `link_path` in a path by `target`, followed by the rest of the path.
+ * The result is a folder path if `as_folder` is true; a path to the root is always `/`.
+ */
+function replaceLink(link_path: AbsoluteFilePath, target: string, rest: string, as_folder: boolean): AbsolutePath {
+    const joined = joinPath('/', getParentPath(link_path), target, rest);
+
+    const trimmed = joined.endsWith('/') ? joined.slice(0, -1) : joined;
+    if(trimmed === '') return '/';
+
+    return (as_folder ? `${trimmed}/` : trimmed) as AbsolutePath;
+}
+
+export interface ResolvedPath<P extends AbsolutePath, E extends DBEntry = DBEntry> {
+    /** Path of the entry itself, free of symbolic links except for the last segment when it is not followed. */
+    path: P;
+    entry: E | null;
+}
+
+/**
+ * Follows the symbolic links in `path`, including the last segment.
+ * The resolved path keeps the form of `path`: a folder path stays one.
+ *
+ * @throws {FSError} `ELOOP` after following `MAX_SYMLINK_HOPS` links
+ */
+export async function resolvePath<P extends AbsolutePath>(source: DBSource, path: P, syscall: string): Promise<ResolvedPath<P, DBFileEntry | DBFolderEntry>> {
+    return await resolve(source, path, syscall, true) as ResolvedPath<P, DBFileEntry | DBFolderEntry>;
+}
+
+/**
+ * Follows the symbolic links in the folders of `path`, but not the last segment,
+ * for operations on a link itself such as `unlink`, `rename` and `lstat`.
+ *
+ * @throws {FSError} `ELOOP` after following `MAX_SYMLINK_HOPS` links
+ */
+export async function resolveLinkPath<P extends AbsolutePath>(source: DBSource, path: P, syscall: string): Promise<ResolvedPath<P>> {
+    return await resolve(source, path, syscall, false);
+}
+
+/**
+ * Entries only exist under real folders, so an existing entry takes a single request;
+ * only for a missing one are its folders looked up, closest first, for a link.
+ */
+async function resolve<P extends AbsolutePath>(source: DBSource, in_path: P, syscall: string, follow: boolean): Promise<ResolvedPath<P>> {
+    const as_folder = isFolderPath(in_path);
+
+    let path: AbsolutePath = in_path;
+    for(let hops = 0; ; ++hops) {
+        if(hops > MAX_SYMLINK_HOPS) {
+            throw FSError.ELOOP(in_path, syscall);
+        }
+
+        const entry = await getEntry(source, toStoragePath(path));
+        if(entry) {
+            if(entry.type !== 'symlink' || !follow) return {path: path as P, entry};
+
+            path = replaceLink(toLinkPath(path), entry.target, '', as_folder);
+            continue;
+        }
+
+        let link_path: AbsoluteFolderPath | null = null;
+        let link_entry: DBSymlinkEntry | null = null;
+        for(let ancestor = getParentPath(path); ancestor !== '/'; ancestor = getParentPath(ancestor)) {
+            const ancestor_entry = await getEntry(source, toStoragePath(ancestor));
+            if(!ancestor_entry) continue;
+
+            if(ancestor_entry.type === 'symlink') {
+                link_path = ancestor;
+                link_entry = ancestor_entry;
+            }
+            break;
+        }
+
+        if(link_path == null || link_entry == null) return {path: path as P, entry: null};
+
+        path = replaceLink(toLinkPath(link_path), link_entry.target, path.slice(link_path.length), as_folder);
+    }
+}
+
+/** A link is stored like a file, even when a path names it as a folder. */
+function toLinkPath(path: AbsolutePath): AbsoluteFilePath {
+    return (isFolderPath(path) ? path.slice(0, -1) : path) as AbsoluteFilePath;
+}
@@ -0,0 +1,154 @@
+import {FSError} from "../../error.ts";
+import {getBaseName, type AbsoluteFolderPath, type AbsolutePath} from "../../path.ts";
+import {INDEX_BY_PARENT, STORE_NAME} from "./const.ts";
+import type {FSCore, FSTransaction} from "./core.ts";
+import type {DBEntry, DBRecord} from "./db-entry.ts";
+import {joinInodes} from "./inode.ts";
+import {fromFolderStoragePath, toStoragePath, type StoragePath} from "./path.ts";
+import {resolvePath} from "./symlink.ts";
+
+/**
+ * Throws unless there is a folder at `path`, following symbolic links.
+ *
+ * @returns The path of the folder itself
+ */
+export async function checkFolder(tx: FSTransaction, path: AbsoluteFolderPath, syscall: string): Promise<AbsoluteFolderPath> {
+    const {path: real_path, entry} = await resolvePath(tx, path, syscall);
+    if(!entry) {
+        throw FSError.ENOENT(path, syscall);
+    }
+    if(entry.type !== 'folder') {
+        throw FSError.ENOTDIR(path, syscall);
+    }
+    return real_path;
+}
+
+/**
+ * Reads the children of the folder stored at `key` through `INDEX_BY_PARENT`, ordered by name.
+ *
+ * @param after Only children whose name sorts after this one are read
+ * @param limit At most this many children are read
+ */
+export async function readChildren(
+    tx: FSTransaction,
+    key: StoragePath,
+    after?: string,
+    limit: number = Infinity,
+): Promise<Array<{key: StoragePath; name: string; entry: DBEntry}>> {
+    const index = tx.objectStore(STORE_NAME).index(INDEX_BY_PARENT);
+
+    let cursor = await index.openCursor(key);
+
+    if(cursor && after != null) {
+        // Children are ordered by their keys, so skip straight past the one named `after`.
+        const after_key = `${fromFolderStoragePath(key)}${after}`;
+        if((cursor.primaryKey as string) < after_key) {
+            cursor = await cursor.continuePrimaryKey(key, after_key);
+        }
+        if(cursor?.primaryKey === after_key) {
+            cursor = await cursor.continue();
+        }
+    }
+
+    const records: Array<{key: StoragePath; entry: DBRecord}> = [];
+    while(cursor && records.length < limit) {
+        records.push({key: cursor.primaryKey as StoragePath, entry: cursor.value as DBRecord});
+
+        cursor = await cursor.continue();
+    }
+
+    return (await joinInodes(tx, records)).map(({key, entry}) => ({key, name: getBaseName(key), entry}));
+}
+
+export type WalkOrder = 'pre' | 'post' | 'bfs';
+
+export interface WalkNode {
+    path: AbsolutePath;
+    name: string;
+    entry: DBEntry;
+
+    /** 1 for the children of the folder being walked. */
+    depth: number;
+}
+
+export interface WalkTreeOptions {
+    /** Deepest level to visit; 1 only visits the children of the root. Default: Infinity */
+    maxDepth?: number;
+
+    /**
+     * - `pre`: depth-first, each folder before its contents
+     * - `post`: depth-first, each folder after its contents
+     * - `bfs`: level by level
+     *
+     * Default: `pre`
+     */
+    order?: WalkOrder;
+
+    /** Folders for which this returns true are still yielded, but their contents are not visited. */
+    prune?: (node: WalkNode) => boolean;
+}
+
+/**
+ * Walks the entries under the folder at `root`, which itself is not yielded. Siblings are visited by name.
+ *
+ * Each folder is read in its own transaction from `core`, so the caller may await anything between entries.
+ * Given a transaction core, the whole walk shares its transaction instead.
+ */
+export async function* walkTree(core: FSCore, root: AbsoluteFolderPath, syscall: string, options?: WalkTreeOptions): AsyncGenerator<WalkNode> {
+    const max_depth = options?.maxDepth ?? Infinity;
+    const order = options?.order ?? 'pre';
+    const prune = options?.prune;
+
+    // Paths are yielded under `root` even if it is reached through a link; they are read under the folder itself.
+    let real_root = root;
+
+    const readFolder = async (folder: AbsoluteFolderPath, depth: number): Promise<WalkNode[]> => {
+        const tx = await core.transaction('readonly');
+        if(depth === 1) real_root = await checkFolder(tx, folder, syscall);
+        const children = await readChildren(tx, toStoragePath(`${real_root}${folder.slice(root.length)}` as AbsoluteFolderPath));
+        await core.commit(tx);
+
+        return children.map(({name, entry}) => ({
+            path: entry.type === 'folder' ? `${folder}${name}/` : `${folder}${name}`,
+            name,
+            entry,
+            depth,
+        }));
+    };
+
+    const shouldDescend = (node: WalkNode): boolean => {
+        return node.entry.type === 'folder' && node.depth < max_depth && !prune?.(node);
+    };
+
+    if(max_depth < 1) {
+        await readFolder(root, 1);
+        return;
+    }
+
+    if(order === 'bfs') {
+        let level: AbsoluteFolderPath[] = [root];
+        for(let depth = 1; level.length > 0; ++depth) {
+            const next_level: AbsoluteFolderPath[] = [];
+            for(const folder of level) {
+                for(const node of await readFolder(folder, depth)) {
+                    if(shouldDescend(node)) next_level.push(node.path as AbsoluteFolderPath);
+                    yield node;
+                }
+            }
+            level = next_level;
+        }
+        return;
+    }
+
+    async function* visit(folder: AbsoluteFolderPath, depth: number): AsyncGenerator<WalkNode> {
+        for(const node of await readFolder(folder, depth)) {
+            const descend = shouldDescend(node);
+
+            if(order === 'pre') yield node;
+            if(descend) yield* visit(node.path as AbsoluteFolderPath, depth + 1);
+            if(order === 'post') yield node;
+        }
+    }
+
+    yield* visit(root, 1);
+}
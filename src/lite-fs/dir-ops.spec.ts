@@ -3,6 +3,8 @@ import {assert} from "chai";
 import {createFSCore, type FSCore} from "./core/index.ts";
 import {createDirOps, type DirOps} from "./dir-ops.ts";
 import {createFileOps, type FileOps} from "./file-ops.ts";
+import {createLinkOps} from "./link-ops.ts";
+import {createStatOps} from "./stat-ops.ts";
 import {assertFSError} from "../error.ts";
 
 describe("mkdir", () => {
@@ -73,6 +75,18 @@ describe("mkdir", () => {
                 assertFSError(err, 'ENOTDIR');
             }
         });
+
+        it("should throw EACCES when the parent is read-only", async () => {
+            await dir_ops.mkdir("/foo/");
+            await createStatOps(core).chmod("/foo/", 0o555);
+
+            try {
+                await dir_ops.mkdir("/foo/bar/");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EACCES');
+            }
+        });
     });
 
     context("with recursive option", () => {
@@ -273,6 +287,99 @@ describe("readdir", () => {
         });
     });
 
+    context("with recursive option", () => {
+        beforeEach(async () => {
+            await file_ops.writeFile("/project/readme.md", "readme");
+            await file_ops.writeFile("/project/src/index.ts", "index");
+            await file_ops.writeFile("/project/src/lib/util.ts", "util");
+            await dir_ops.mkdir("/project/empty/");
+            await file_ops.writeFile("/other.txt", "other");
+        });
+
+        it("should list the whole subtree relative to the folder", async () => {
+            const entries = await dir_ops.readdir("/project/", {recursive: true});
+            assert.sameMembers(entries, ["readme.md", "src", "src/index.ts", "src/lib", "src/lib/util.ts", "empty"]);
+        });
+
+        it("should list parents before their children", async () => {
+            const entries = await dir_ops.readdir("/project/", {recursive: true});
+            assert.isBelow(entries.indexOf("src"), entries.indexOf("src/lib"));
+            assert.isBelow(entries.indexOf("src/lib"), entries.indexOf("src/lib/util.ts"));
+        });
+
+        it("should list from the root", async () => {
+            const entries = await dir_ops.readdir("/", {recursive: true});
+            assert.includeMembers(entries, ["project", "other.txt", "project/src/lib/util.ts"]);
+            assert.lengthOf(entries, 8);
+        });
+
+        it("should return Dirent objects with their parent paths", async () => {
+            const entries = await dir_ops.readdir("/project/", {recursive: true, withFileTypes: true});
+            assert.lengthOf(entries, 6);
+
+            const util = entries.find((e) => e.name === "util.ts")!;
+            assert.isTrue(util.isFile());
+            assert.strictEqual(util.parentPath, "/project/src/lib/");
+
+            const lib = entries.find((e) => e.name === "lib")!;
+            assert.isTrue(lib.isDirectory());
+            assert.strictEqual(lib.parentPath, "/project/src/");
+        });
+
+        it("should give parent paths under a linked folder", async () => {
+            await createLinkOps(core).symlink("/project", "/link");
+
+            const entries = await dir_ops.readdir("/link/", {recursive: true, withFileTypes: true});
+            assert.strictEqual(entries.find((e) => e.name === "readme.md")!.parentPath, "/link/");
+            assert.strictEqual(entries.find((e) => e.name === "util.ts")!.parentPath, "/link/src/lib/");
+        });
+    });
+
+    context("with limit and after options", () => {
+        beforeEach(async () => {
+            for(const name of ["a.txt", "c.txt", "d.txt", "e.txt"]) {
+                await file_ops.writeFile(`/list/${name}`, name);
+            }
+            await file_ops.writeFile("/list/b/nested.txt", "nested");
+        });
+
+        it("should read one page at a time", async () => {
+            const pages: string[][] = [];
+            let after: string | undefined;
+            do {
+                const page = await dir_ops.readdir("/list/", {limit: 2, after});
+                pages.push(page);
+                after = page.at(-1);
+            } while(pages.at(-1)!.length === 2);
+
+            assert.deepEqual(pages, [["a.txt", "b"], ["c.txt", "d.txt"], ["e.txt"]]);
+        });
+
+        it("should start after a name that no longer exists", async () => {
+            const entries = await dir_ops.readdir("/list/", {after: "bb"});
+            assert.deepEqual(entries, ["c.txt", "d.txt", "e.txt"]);
+        });
+
+        it("should page Dirent objects", async () => {
+            const entries = await dir_ops.readdir("/list/", {withFileTypes: true, limit: 1, after: "a.txt"});
+            assert.lengthOf(entries, 1);
+            assert.strictEqual(entries[0]!.name, "b");
+            assert.isTrue(entries[0]!.isDirectory());
+        });
+
+        it("should throw EINVAL for invalid options", async () => {
+            const invalid_options = [{limit: -1}, {limit: 1.5}, {after: "a/b"}, {recursive: true, limit: 1}];
+            for(const options of invalid_options) {
+                try {
+                    await dir_ops.readdir("/list/", options);
+                    assert.fail("Expected error");
+                } catch (err) {
+                    assertFSError(err, 'EINVAL');
+                }
+            }
+        });
+    });
+
     context("root directory", () => {
         it("should read empty root directory", async () => {
             const entries = await dir_ops.readdir("/");
@@ -362,3 +469,90 @@ describe("readdir", () => {
         });
     });
 });
+
+describe("opendir", () => {
+    let core: FSCore;
+    let dir_ops: DirOps;
+    let file_ops: FileOps;
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-opendir");
+        await core.reset();
+        dir_ops = createDirOps(core);
+        file_ops = createFileOps(core);
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    it("should iterate over every entry across batches", async () => {
+        const names = Array.from({length: 10}, (_, i) => `file-${i}.txt`);
+        for(const name of names) {
+            await file_ops.writeFile(`/tiles/${name}`, name);
+        }
+        await dir_ops.mkdir("/tiles/sub/");
+
+        const read: string[] = [];
+        for await (const dirent of await dir_ops.opendir("/tiles/", {bufferSize: 3})) {
+            assert.strictEqual(dirent.parentPath, "/tiles/");
+            read.push(dirent.name);
+        }
+
+        assert.deepEqual(read, [...names, "sub"]);
+    });
+
+    it("should give parent paths under a linked folder", async () => {
+        await file_ops.writeFile("/dir/a.txt", "a");
+        await createLinkOps(core).symlink("/dir", "/link");
+
+        const dir = await dir_ops.opendir("/link/");
+        assert.strictEqual((await dir.read())?.parentPath, "/link/");
+        await dir.close();
+    });
+
+    it("should return null from read once done", async () => {
+        await file_ops.writeFile("/dir/a.txt", "a");
+        await file_ops.writeFile("/dir/b.txt", "b");
+
+        const dir = await dir_ops.opendir("/dir/", {bufferSize: 2});
+        assert.strictEqual((await dir.read())?.name, "a.txt");
+        assert.strictEqual((await dir.read())?.name, "b.txt");
+        assert.isNull(await dir.read());
+        assert.isNull(await dir.read());
+        await dir.close();
+    });
+
+    it("should throw EBADF when reading after close", async () => {
+        await dir_ops.mkdir("/dir/");
+
+        const dir = await dir_ops.opendir("/dir/");
+        await dir.close();
+
+        try {
+            await dir.read();
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'EBADF');
+        }
+    });
+
+    it("should throw ENOENT for a missing folder", async () => {
+        try {
+            await dir_ops.opendir("/missing/");
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'ENOENT');
+        }
+    });
+
+    it("should throw EINVAL for an invalid bufferSize", async () => {
+        await dir_ops.mkdir("/dir/");
+        try {
+            await dir_ops.opendir("/dir/", {bufferSize: 0});
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'EINVAL');
+        }
+    });
+});
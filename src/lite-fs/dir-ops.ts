@@ -1,114 +1,128 @@
 export type {DirOps} from "../api/dir-ops.ts";
-import type {DirOps, Dirent, MkdirOptions} from "../api/dir-ops.ts";
+import type {Dir, DirOps, Dirent, MkdirOptions, OpendirOptions, ReaddirOptions} from "../api/dir-ops.ts";
 
 import {FSError} from "../error.ts";
-import {getBaseName, getParentPath, validatePath} from "../path.ts";
+import {validatePath, type AbsoluteFolderPath} from "../path.ts";
 import {
+    allocateIno,
+    checkFolder,
+    checkParentDir,
+    checkParentWritable,
     createDBFolderEntry,
     ensureParentDirs,
-    getEntryByPath,
     putEntryByPath,
+    readChildren,
+    resolveLinkPath,
+    resolvePath,
+    toStoragePath,
+    touchParentDir,
     type DBEntry,
     type FSCore,
+    type StoragePath,
 } from "./core/index.ts";
+import {createDirent, openDir} from "./dir.ts";
 
-import {INDEX_BY_PARENT, STORE_NAME} from "./core/const.ts";
-import {fromFolderStoragePath, toStoragePath} from "./core/path.ts";
-
-function createDirent(entry: DBEntry, name: string): Dirent {
-    const is_file = entry.type === 'file';
-    return {
-        isFile: () => is_file,
-        isDirectory: () => !is_file,
-        parentPath: fromFolderStoragePath(entry.parent),
-        name,
-    };
+function isValidLimit(limit: number): boolean {
+    return Number.isSafeInteger(limit) && limit >= 0;
 }
 
 export function createDirOps(core: FSCore): DirOps {
     async function mkdir(in_path: string, options?: MkdirOptions): Promise<void> {
-        const path = validatePath(in_path, 'folder');
-        if(path === '/') {
+        const validated_path = validatePath(in_path, 'folder');
+        if(validated_path === '/') {
             return;
         }
 
-        const db = await core.getDB();
-        const existing = await getEntryByPath(db, path);
+        const tx = await core.transaction('readwrite');
 
+        // A link in the last segment is an existing entry, even if dangling.
+        const {path, entry: existing} = await resolveLinkPath(tx, validated_path, 'mkdir');
         if(existing) {
-            if(options?.recursive && existing.type === 'folder') {
+            const is_folder = existing.type === 'symlink'
+                ? (await resolvePath(tx, path, 'mkdir')).entry?.type === 'folder'
+                : existing.type === 'folder';
+
+            if(options?.recursive && is_folder) {
                 // With recursive: true, existing directory is OK.
+                await core.commit(tx);
                 return;
             }
-            throw FSError.EEXIST(path, 'mkdir');
+            throw FSError.EEXIST(validated_path, 'mkdir');
         }
 
+        await checkParentWritable(core, tx, path, 'mkdir');
+
+        let created: AbsoluteFolderPath[] = [];
+
         if(options?.recursive) {
-            const created = await ensureParentDirs(db, path);
-            for(const dir of created) {
-                core.emit({eventType: 'rename', filename: dir});
-            }
+            created = await ensureParentDirs(core, tx, path);
         } else {
             // Non-recursive: parent must exist.
-            const parent_path = getParentPath(path);
-            if(parent_path !== '/') {
-                const parent = await getEntryByPath(db, parent_path);
-                if(!parent) {
-                    throw FSError.ENOENT(parent_path, 'mkdir');
-                }
-                if(parent.type !== 'folder') {
-                    throw FSError.ENOTDIR(parent_path.slice(0, -1), 'mkdir');
-                }
-            }
+            await checkParentDir(tx, path, 'mkdir');
         }
 
-        const entry = createDBFolderEntry(path);
-        await putEntryByPath(db, path, entry);
+        const entry = createDBFolderEntry(path, await allocateIno(tx));
+        await putEntryByPath(tx, path, entry);
+        await touchParentDir(tx, path);
+        await core.commit(tx);
+
+        for(const dir of created) {
+            core.emit({eventType: 'rename', filename: dir});
+        }
 
         core.emit({eventType: 'rename', filename: path});
     }
 
-    async function readdir(path: string): Promise<string[]>;
-    async function readdir(path: string, options: {withFileTypes: true}): Promise<Dirent[]>;
-    async function readdir(in_path: string, options?: {withFileTypes: true}): Promise<string[] | Dirent[]> {
+    async function readdir(path: string, options?: ReaddirOptions & {withFileTypes?: false}): Promise<string[]>;
+    async function readdir(path: string, options: ReaddirOptions & {withFileTypes: true}): Promise<Dirent[]>;
+    async function readdir(in_path: string, options?: ReaddirOptions): Promise<string[] | Dirent[]> {
         const path = validatePath(in_path, 'folder');
 
-        const db = await core.getDB();
+        const recursive = options?.recursive ?? false;
+        const limit = options?.limit ?? Infinity;
+        const after = options?.after;
 
-        // Check directory exists.
-        if(path !== '/') {
-            const dir_entry = await getEntryByPath(db, path);
-            if(!dir_entry) {
-                throw FSError.ENOENT(path, 'readdir');
-            }
-            if(dir_entry.type !== 'folder') {
-                throw FSError.ENOTDIR(path, 'readdir');
-            }
+        if(limit !== Infinity && !isValidLimit(limit)) {
+            throw FSError.EINVAL(path, 'readdir');
+        }
+        if(after != null && (after === '' || after.includes('/'))) {
+            throw FSError.EINVAL(path, 'readdir');
+        }
+        if(recursive && (options?.limit != null || after != null)) {
+            throw FSError.EINVAL(path, 'readdir');
         }
 
-        // Query children by parent index.
-        const storage_path = toStoragePath(path);
-        const tx = db.transaction(STORE_NAME, 'readonly');
-        const index = tx.store.index(INDEX_BY_PARENT);
+        const tx = await core.transaction('readonly');
+        const real_path = await checkFolder(tx, path, 'readdir');
 
-        const results: Array<{name: string; entry: DBEntry}> = [];
+        // Query children by parent index, folder by folder when recursive.
+        const results: Array<{name: string; relative_path: string; prefix: string; entry: DBEntry}> = [];
+        const folders: Array<{key: StoragePath; prefix: string}> = [{key: toStoragePath(real_path), prefix: ''}];
 
-        let cursor = await index.openCursor(storage_path);
-        while(cursor) {
-            const key = cursor.primaryKey as string;
-            const entry = cursor.value as DBEntry;
-            const name = getBaseName(key);
+        for(let i = 0; i < folders.length; ++i) {
+            const folder = folders[i]!;
 
-            results.push({name, entry});
-            cursor = await cursor.continue();
+            for(const {key, name, entry} of await readChildren(tx, folder.key, after, limit)) {
+                results.push({name, relative_path: `${folder.prefix}${name}`, prefix: folder.prefix, entry});
+                if(recursive && entry.type === 'folder') {
+                    folders.push({key, prefix: `${folder.prefix}${name}/`});
+                }
+            }
         }
 
+        await core.commit(tx);
+
         if(options?.withFileTypes) {
-            return results.map(({name, entry}) => createDirent(entry, name));
+            return results.map(({name, prefix, entry}) => createDirent(entry, name, `${path}${prefix}` as AbsoluteFolderPath));
         }
 
-        return results.map(({name}) => name);
+        return results.map(({relative_path}) => relative_path);
+    }
+
+    async function opendir(in_path: string, options?: OpendirOptions): Promise<Dir> {
+        const path = validatePath(in_path, 'folder');
+        return await openDir(core, path, options);
     }
 
-    return {mkdir, readdir};
+    return {mkdir, readdir, opendir};
 }
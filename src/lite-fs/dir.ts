@@ -0,0 +1,87 @@
+import type {Dir, Dirent, OpendirOptions} from "../api/dir-ops.ts";
+
+import {FSError} from "../error.ts";
+import type {AbsoluteFolderPath} from "../path.ts";
+import {
+    checkFolder,
+    readChildren,
+    toStoragePath,
+    type DBEntry,
+    type FSCore,
+} from "./core/index.ts";
+
+const DEFAULT_BUFFER_SIZE = 32;
+
+/**
+ * @param parent_path Folder as listed by the caller, which may be reached through links,
+ * rather than the folder where `entry` is stored
+ */
+export function createDirent(entry: DBEntry, name: string, parent_path: AbsoluteFolderPath): Dirent {
+    const type = entry.type;
+    return {
+        isFile: () => type === 'file',
+        isDirectory: () => type === 'folder',
+        isSymbolicLink: () => type === 'symlink',
+        parentPath: parent_path,
+        name,
+    };
+}
+
+/**
+ * Opens the folder at `path` for iteration.
+ * Entries are read `bufferSize` at a time, each batch in its own transaction.
+ */
+export async function openDir(core: FSCore, path: AbsoluteFolderPath, options?: OpendirOptions): Promise<Dir> {
+    const buffer_size = options?.bufferSize ?? DEFAULT_BUFFER_SIZE;
+    if(!Number.isSafeInteger(buffer_size) || buffer_size < 1) {
+        throw FSError.EINVAL(path, 'opendir');
+    }
+
+    const readBatch = async (after?: string): Promise<Dirent[]> => {
+        const tx = await core.transaction('readonly');
+
+        const real_path = await checkFolder(tx, path, 'opendir');
+        const children = await readChildren(tx, toStoragePath(real_path), after, buffer_size);
+        await core.commit(tx);
+
+        return children.map(({name, entry}) => createDirent(entry, name, path));
+    };
+
+    let batch = await readBatch();
+    let position = 0;
+    let is_closed = false;
+
+    const dir: Dir = {
+        path,
+        async read(): Promise<Dirent | null> {
+            if(is_closed) throw FSError.EBADF(path, 'readdir');
+
+            if(position >= batch.length) {
+                // A short batch means that the folder has been read to its end.
+                if(batch.length < buffer_size) return null;
+
+                batch = await readBatch(batch[batch.length - 1]!.name);
+                position = 0;
+
+                if(batch.length === 0) return null;
+            }
+
+            return batch[position++]!;
+        },
+        async close(): Promise<void> {
+            is_closed = true;
+            batch = [];
+        },
+        async *[Symbol.asyncIterator](): AsyncIterator<Dirent> {
+            try {
+                for(let dirent = await dir.read(); dirent; dirent = await dir.read()) {
+                    yield dirent;
+                }
+            } finally {
+                await dir.close();
+            }
+        },
+    };
+
+    return dir;
+}
@@ -0,0 +1,350 @@
+import "fake-indexeddb/auto";
+import {assert} from "chai";
+import {createFSCore, type FSCore} from "./core/index.ts";
+import {createDirOps, type DirOps} from "./dir-ops.ts";
+import {createFileOps, type FileOps} from "./file-ops.ts";
+import {createRemoveOps} from "./remove-ops.ts";
+import {createRenameOps} from "./rename-ops.ts";
+import {createStatOps} from "./stat-ops.ts";
+import {assertFSError} from "../error.ts";
+import type {WatchEvent} from "../api/watch-ops.ts";
+
+describe("open", () => {
+    let core: FSCore;
+    let dir_ops: DirOps;
+    let file_ops: FileOps;
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-open");
+        await core.reset();
+        dir_ops = createDirOps(core);
+        file_ops = createFileOps(core);
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    context("opening files", () => {
+        it("should open an existing file for reading", async () => {
+            await file_ops.writeFile("/test.txt", "hello");
+
+            const handle = await file_ops.open("/test.txt");
+            const {bytesRead, buffer} = await handle.read(new Uint8Array(5));
+            await handle.close();
+
+            assert.equal(bytesRead, 5);
+            assert.equal(new TextDecoder().decode(buffer), "hello");
+        });
+
+        it("should throw ENOENT when opening a missing file with 'r'", async () => {
+            try {
+                await file_ops.open("/missing.txt", "r");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'ENOENT');
+            }
+        });
+
+        it("should only allow reading a read-only file", async () => {
+            await file_ops.writeFile("/test.txt", "hello");
+            await createStatOps(core).chmod("/test.txt", 0o444);
+
+            const handle = await file_ops.open("/test.txt", "r");
+            await handle.close();
+
+            for(const flags of ["r+", "w", "a"] as const) {
+                try {
+                    await file_ops.open("/test.txt", flags);
+                    assert.fail("Expected error");
+                } catch (err) {
+                    assertFSError(err, 'EACCES');
+                }
+            }
+
+            assert.strictEqual(await file_ops.readFile("/test.txt", "utf-8"), "hello");
+        });
+
+        it("should create a missing file with 'w'", async () => {
+            const handle = await file_ops.open("/new.txt", "w");
+            await handle.close();
+
+            const content = await file_ops.readFile("/new.txt");
+            assert.deepEqual(content, new Uint8Array(0));
+        });
+
+        it("should truncate an existing file with 'w'", async () => {
+            await file_ops.writeFile("/test.txt", "hello");
+
+            const handle = await file_ops.open("/test.txt", "w");
+            await handle.close();
+
+            const content = await file_ops.readFile("/test.txt", "utf-8");
+            assert.equal(content, "");
+        });
+
+        it("should throw EEXIST for 'wx' on an existing file", async () => {
+            await file_ops.writeFile("/test.txt", "hello");
+            try {
+                await file_ops.open("/test.txt", "wx");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EEXIST');
+            }
+        });
+
+        it("should throw ENOENT when the parent folder does not exist", async () => {
+            try {
+                await file_ops.open("/missing/new.txt", "w");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'ENOENT');
+            }
+        });
+
+        it("should throw EISDIR when a folder exists at the path", async () => {
+            await dir_ops.mkdir("/folder/");
+            try {
+                await file_ops.open("/folder", "r+");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EISDIR');
+            }
+        });
+
+        it("should throw EINVAL for unknown flags", async () => {
+            try {
+                await file_ops.open("/test.txt", "rw" as "r");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EINVAL');
+            }
+        });
+    });
+
+    context("reading and writing", () => {
+        it("should write at an explicit position without touching other bytes", async () => {
+            await file_ops.writeFile("/test.txt", "hello world");
+
+            const handle = await file_ops.open("/test.txt", "r+");
+            await handle.write("W", 6);
+            await handle.close();
+
+            const content = await file_ops.readFile("/test.txt", "utf-8");
+            assert.equal(content, "hello World");
+        });
+
+        it("should advance the file position for sequential writes and reads", async () => {
+            const handle = await file_ops.open("/test.txt", "w+");
+            await handle.write("abc");
+            await handle.write("def");
+
+            const {bytesRead, buffer} = await handle.read(new Uint8Array(4), 0, 4, 1);
+            assert.equal(bytesRead, 4);
+            assert.equal(new TextDecoder().decode(buffer), "bcde");
+
+            await handle.close();
+        });
+
+        it("should zero-fill when writing past the end", async () => {
+            const handle = await file_ops.open("/test.bin", "w");
+            await handle.write(new Uint8Array([1]), 3);
+            await handle.close();
+
+            const content = await file_ops.readFile("/test.bin");
+            assert.deepEqual(content, new Uint8Array([0, 0, 0, 1]));
+        });
+
+        it("should always write at the end in append mode", async () => {
+            await file_ops.writeFile("/log.txt", "a");
+
+            const handle = await file_ops.open("/log.txt", "a");
+            await handle.write("b", 0);
+            await handle.write("c");
+            await handle.close();
+
+            const content = await file_ops.readFile("/log.txt", "utf-8");
+            assert.equal(content, "abc");
+        });
+
+        it("should read fewer bytes at the end of the file", async () => {
+            await file_ops.writeFile("/test.txt", "abc");
+
+            const handle = await file_ops.open("/test.txt");
+            const buffer = new Uint8Array(8);
+            const first = await handle.read(buffer, 0, 8);
+            const second = await handle.read(buffer, 0, 8);
+            await handle.close();
+
+            assert.equal(first.bytesRead, 3);
+            assert.equal(second.bytesRead, 0);
+        });
+
+        it("should throw EBADF when writing to a read-only handle", async () => {
+            await file_ops.writeFile("/test.txt", "abc");
+
+            const handle = await file_ops.open("/test.txt", "r");
+            try {
+                await handle.write("x");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EBADF');
+            } finally {
+                await handle.close();
+            }
+        });
+
+        it("should throw EBADF when reading from a write-only handle", async () => {
+            const handle = await file_ops.open("/test.txt", "w");
+            try {
+                await handle.read(new Uint8Array(1));
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EBADF');
+            } finally {
+                await handle.close();
+            }
+        });
+
+        it("should throw EBADF after the handle is closed", async () => {
+            await file_ops.writeFile("/test.txt", "abc");
+
+            const handle = await file_ops.open("/test.txt", "r+");
+            await handle.close();
+
+            try {
+                await handle.write("x");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EBADF');
+            }
+        });
+    });
+
+    context("truncate and stat", () => {
+        it("should shrink and grow the file", async () => {
+            await file_ops.writeFile("/test.txt", "hello");
+
+            const handle = await file_ops.open("/test.txt", "r+");
+            await handle.truncate(2);
+            assert.equal(await file_ops.readFile("/test.txt", "utf-8"), "he");
+
+            await handle.truncate(4);
+            await handle.close();
+
+            assert.deepEqual(await file_ops.readFile("/test.txt"), new Uint8Array([104, 101, 0, 0]));
+        });
+
+        it("should stat the opened file", async () => {
+            const handle = await file_ops.open("/test.txt", "w");
+            const stats = await handle.stat();
+            await handle.close();
+
+            assert.isTrue(stats.isFile());
+        });
+
+        it("should set timestamps with utimes", async () => {
+            const handle = await file_ops.open("/test.txt", "w");
+            await handle.write("data");
+            await handle.utimes(new Date(1000), new Date(2000));
+            const stats = await handle.stat();
+            await handle.close();
+
+            assert.strictEqual(stats.atimeMs, 1000);
+            assert.strictEqual(stats.mtimeMs, 2000);
+        });
+    });
+
+    context("renamed files", () => {
+        it("should keep reading and writing the file after it is renamed", async () => {
+            await file_ops.writeFile("/old.txt", "hello");
+
+            const handle = await file_ops.open("/old.txt", "r+");
+            await createRenameOps(core).rename("/old.txt", "/new.txt");
+
+            await handle.write("HE");
+            const {bytesRead, buffer} = await handle.read(new Uint8Array(3), 0, 3, 2);
+            const stats = await handle.stat();
+            await handle.close();
+
+            assert.equal(new TextDecoder().decode(buffer.subarray(0, bytesRead)), "llo");
+            assert.strictEqual(stats.size, 5);
+            assert.equal(await file_ops.readFile("/new.txt", "utf-8"), "HEllo");
+        });
+
+        it("should throw ENOENT once the file is removed", async () => {
+            await file_ops.writeFile("/test.txt", "hello");
+
+            const handle = await file_ops.open("/test.txt", "r+");
+            await createRemoveOps(core).rm("/test.txt");
+
+            try {
+                await handle.write("x");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'ENOENT');
+            }
+            await handle.close();
+        });
+    });
+
+    context("watch events", () => {
+        it("should emit a single 'change' event on close after several writes", async () => {
+            await file_ops.writeFile("/test.txt", "hello");
+
+            const events: WatchEvent[] = [];
+            const unsubscribe = core.subscribe((event) => events.push(event));
+
+            const handle = await file_ops.open("/test.txt", "r+");
+            await handle.write("a", 0);
+            await handle.write("b", 1);
+            await handle.truncate(3);
+            assert.deepEqual(events, []);
+
+            await handle.close();
+            unsubscribe();
+
+            assert.deepEqual(events, [{eventType: 'change', filename: '/test.txt'}]);
+        });
+
+        it("should emit 'change' on sync and not again on close", async () => {
+            await file_ops.writeFile("/test.txt", "hello");
+
+            const events: WatchEvent[] = [];
+            const unsubscribe = core.subscribe((event) => events.push(event));
+
+            const handle = await file_ops.open("/test.txt", "r+");
+            await handle.write("a", 0);
+            await handle.sync();
+            await handle.close();
+            unsubscribe();
+
+            assert.deepEqual(events, [{eventType: 'change', filename: '/test.txt'}]);
+        });
+
+        it("should emit 'rename' when a file is created", async () => {
+            const events: WatchEvent[] = [];
+            const unsubscribe = core.subscribe((event) => events.push(event));
+
+            const handle = await file_ops.open("/new.txt", "wx");
+            await handle.close();
+            unsubscribe();
+
+            assert.deepEqual(events, [{eventType: 'rename', filename: '/new.txt'}]);
+        });
+
+        it("should not emit anything for a read-only handle", async () => {
+            await file_ops.writeFile("/test.txt", "hello");
+
+            const events: WatchEvent[] = [];
+            const unsubscribe = core.subscribe((event) => events.push(event));
+
+            const handle = await file_ops.open("/test.txt");
+            await handle.read(new Uint8Array(5));
+            await handle.close();
+            unsubscribe();
+
+            assert.deepEqual(events, []);
+        });
+    });
+});
@@ -0,0 +1,279 @@
+import type {FileHandle, FileReadResult, FileWriteResult, OpenFlags} from "../api/file-handle.ts";
+import type {Stats, TimeLike} from "../api/index.ts";
+
+import {toBytes} from "../encoding.ts";
+import {FSError} from "../error.ts";
+import {getParentPath, type AbsoluteFilePath} from "../path.ts";
+import {
+    allocateIno,
+    checkParentDir,
+    checkParentWritable,
+    checkWritable,
+    createDBFileEntry,
+    deleteContent,
+    getInode,
+    modifyDBEntry,
+    now,
+    putEntry,
+    putInode,
+    readContent,
+    recordAccess,
+    resolveLinkPath,
+    resolvePath,
+    toDBTimeStamp,
+    toStoragePath,
+    touchParentDir,
+    truncateContent,
+    writeContent,
+    type DBInode,
+    type FSCore,
+    type FSTransaction,
+} from "./core/index.ts";
+import {createStats} from "./stat-ops.ts";
+
+interface OpenMode {
+    readable: boolean;
+    writable: boolean;
+    append: boolean;
+    create: boolean;
+    exclusive: boolean;
+    truncate: boolean;
+}
+
+const OPEN_FLAGS: ReadonlySet<string> = new Set<OpenFlags>(['r', 'r+', 'w', 'w+', 'wx', 'wx+', 'a', 'a+', 'ax', 'ax+']);
+
+function parseOpenFlags(flags: OpenFlags, path: AbsoluteFilePath): OpenMode {
+    if(!OPEN_FLAGS.has(flags)) {
+        throw FSError.EINVAL(path, 'open');
+    }
+
+    const is_read = flags.startsWith('r');
+    const is_plus = flags.endsWith('+');
+
+    return {
+        readable: is_read || is_plus,
+        writable: !is_read || is_plus,
+        append: flags.startsWith('a'),
+        create: !is_read,
+        exclusive: flags.includes('x'),
+        truncate: flags.startsWith('w'),
+    };
+}
+
+function isValidPosition(position: number): boolean {
+    return Number.isSafeInteger(position) && position >= 0;
+}
+
+/**
+ * Creates a handle on the file with `ino`, opened as `path`.
+ * The handle keeps working on the file when it is renamed, or reached through another of its names.
+ */
+function createFileHandle(core: FSCore, path: AbsoluteFilePath, ino: number, mode: OpenMode, is_dirty: boolean): FileHandle {
+    let position = 0;
+    let is_closed = false;
+
+    const assertUsable = (syscall: string, need: 'read' | 'write') => {
+        if(is_closed) throw FSError.EBADF(path, syscall);
+        if(need === 'read' ? !mode.readable : !mode.writable) throw FSError.EBADF(path, syscall);
+    };
+
+    /** Reads the inode of the file; it is gone once every name of the file is removed. */
+    const getFile = async (tx: FSTransaction, syscall: string): Promise<DBInode> => {
+        const inode = await getInode(tx, ino);
+        if(!inode) {
+            throw FSError.ENOENT(path, syscall);
+        }
+        return inode;
+    };
+
+    const flush = () => {
+        if(!is_dirty) return;
+        is_dirty = false;
+
+        core.emit({eventType: 'change', filename: path});
+    };
+
+    return {
+        path,
+        async read<T extends Uint8Array>(buffer: T, offset = 0, length = buffer.byteLength - offset, in_position: number | null = null): Promise<FileReadResult<T>> {
+            assertUsable('read', 'read');
+
+            if(!isValidPosition(offset) || !isValidPosition(length) || offset + length > buffer.byteLength) {
+                throw FSError.EINVAL(path, 'read');
+            }
+            if(in_position != null && !isValidPosition(in_position)) {
+                throw FSError.EINVAL(path, 'read');
+            }
+
+            const tx = await core.transaction('readonly');
+
+            const inode = await getFile(tx, 'read');
+
+            const start = in_position ?? position;
+            const bytes = await readContent(tx, ino, inode.size, start, start + length);
+            await core.commit(tx);
+
+            await recordAccess(core, ino);
+
+            buffer.set(bytes, offset);
+
+            if(in_position == null) {
+                position = start + bytes.byteLength;
+            }
+
+            return {bytesRead: bytes.byteLength, buffer};
+        },
+        async write(data: string | Uint8Array, in_position: number | null = null): Promise<FileWriteResult> {
+            assertUsable('write', 'write');
+
+            if(in_position != null && !isValidPosition(in_position)) {
+                throw FSError.EINVAL(path, 'write');
+            }
+
+            const bytes = toBytes(data);
+
+            const tx = await core.transaction('readwrite');
+
+            const inode = await getFile(tx, 'write');
+
+            const start = mode.append ? inode.size : (in_position ?? position);
+            const size = await writeContent(tx, ino, inode.size, bytes, start);
+            await putInode(tx, ino, modifyDBEntry(inode, {size}));
+            await core.commit(tx);
+
+            if(!mode.append && in_position == null) {
+                position = start + bytes.byteLength;
+            }
+
+            is_dirty = true;
+            return {bytesWritten: bytes.byteLength};
+        },
+        async truncate(len = 0): Promise<void> {
+            assertUsable('ftruncate', 'write');
+
+            if(!isValidPosition(len)) {
+                throw FSError.EINVAL(path, 'ftruncate');
+            }
+
+            const tx = await core.transaction('readwrite');
+
+            const inode = await getFile(tx, 'ftruncate');
+
+            await truncateContent(tx, ino, inode.size, len);
+            await putInode(tx, ino, modifyDBEntry(inode, {size: len}));
+            await core.commit(tx);
+
+            is_dirty = true;
+        },
+        async stat(): Promise<Stats> {
+            if(is_closed) throw FSError.EBADF(path, 'fstat');
+
+            const tx = await core.transaction('readonly');
+            const inode = await getFile(tx, 'fstat');
+            await core.commit(tx);
+
+            // Stats do not depend on the folder of the file, which may have changed since it was opened.
+            return createStats({type: 'file', ino, parent: toStoragePath(getParentPath(path)), ...inode});
+        },
+        async utimes(atime: TimeLike, mtime: TimeLike): Promise<void> {
+            if(is_closed) throw FSError.EBADF(path, 'futime');
+
+            const atime_ms = toDBTimeStamp(atime);
+            const mtime_ms = toDBTimeStamp(mtime);
+            if(atime_ms == null || mtime_ms == null) {
+                throw FSError.EINVAL(path, 'futime');
+            }
+
+            const tx = await core.transaction('readwrite');
+            const inode = await getFile(tx, 'futime');
+            await putInode(tx, ino, {...inode, atime: atime_ms, mtime: mtime_ms, ctime: now()});
+            await core.commit(tx);
+
+            core.emit({eventType: 'change', filename: path});
+        },
+        async sync(): Promise<void> {
+            if(is_closed) throw FSError.EBADF(path, 'fsync');
+            flush();
+        },
+        async close(): Promise<void> {
+            if(is_closed) return;
+            is_closed = true;
+
+            flush();
+        },
+    };
+}
+
+/**
+ * Throws `EEXIST`, or `EISDIR` for a folder, if there is any entry at `path`, for an exclusive create.
+ * The last segment is not followed, so even a dangling link counts.
+ */
+export async function checkNoEntry(tx: FSTransaction, path: AbsoluteFilePath, syscall: string): Promise<void> {
+    const {entry} = await resolveLinkPath(tx, path, syscall);
+    if(entry?.type === 'folder') {
+        throw FSError.EISDIR(path, syscall);
+    }
+    if(entry) {
+        throw FSError.EEXIST(path, syscall);
+    }
+}
+
+/**
+ * Opens a file handle for `path`, creating or truncating the file as `flags` dictate.
+ * Unlike `writeFile`, parent folders are never created.
+ */
+export async function openFileHandle(core: FSCore, in_path: AbsoluteFilePath, flags: OpenFlags): Promise<FileHandle> {
+    const mode = parseOpenFlags(flags, in_path);
+
+    const tx = await core.transaction('readwrite');
+
+    if(mode.exclusive) {
+        await checkNoEntry(tx, in_path, 'open');
+    }
+
+    // The handle works on the file itself, wherever the links in `in_path` lead.
+    const {path, entry} = await resolvePath(tx, in_path, 'open');
+    const key = toStoragePath(path);
+
+    let ino: number;
+    let is_new_file = false;
+    let is_truncated = false;
+
+    if(entry == null) {
+        if(!mode.create) {
+            throw FSError.ENOENT(path, 'open');
+        }
+
+        await checkParentDir(tx, path, 'open');
+        await checkParentWritable(core, tx, path, 'open');
+
+        ino = await allocateIno(tx);
+        await putEntry(tx, key, createDBFileEntry(path, ino, 0));
+        await touchParentDir(tx, path);
+        is_new_file = true;
+    } else {
+        if(entry.type !== 'file') {
+            throw FSError.EISDIR(path, 'open');
+        }
+
+        if(mode.writable) {
+            checkWritable(core, entry, path, 'open');
+        }
+
+        ino = entry.ino;
+
+        if(mode.truncate && entry.size > 0) {
+            await deleteContent(tx, entry.ino);
+            await putEntry(tx, key, modifyDBEntry(entry, {size: 0}));
+            is_truncated = true;
+        }
+    }
+
+    await core.commit(tx);
+
+    if(is_new_file) {
+        core.emit({eventType: 'rename', filename: path});
+    }
+
+    return createFileHandle(core, path, ino, mode, is_truncated);
+}
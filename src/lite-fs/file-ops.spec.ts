@@ -3,7 +3,9 @@ import {assert} from "chai";
 import {createFSCore, type FSCore} from "./core/index.ts";
 import {createDirOps, type DirOps} from "./dir-ops.ts";
 import {createFileOps, type FileOps} from "./file-ops.ts";
+import {createStatOps} from "./stat-ops.ts";
 import {assertFSError} from "../error.ts";
+import type {WatchEvent} from "../api/watch-ops.ts";
 
 describe("writeFile", () => {
     let core: FSCore;
@@ -88,6 +90,91 @@ describe("writeFile", () => {
         });
     });
 
+    context("flag option", () => {
+        it("should create a file with 'wx'", async () => {
+            await file_ops.writeFile("/lock", "1", {flag: 'wx'});
+            assert.equal(await file_ops.readFile("/lock", "utf-8"), "1");
+        });
+
+        it("should throw EEXIST with 'wx' when the file exists", async () => {
+            await file_ops.writeFile("/lock", "1");
+            try {
+                await file_ops.writeFile("/lock", "2", {flag: 'wx'});
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EEXIST');
+            }
+            assert.equal(await file_ops.readFile("/lock", "utf-8"), "1");
+        });
+
+        it("should let exactly one concurrent 'wx' write win", async () => {
+            const results = await Promise.allSettled(
+                ["a", "b", "c"].map((owner) => file_ops.writeFile("/lock", owner, {flag: 'wx'})),
+            );
+
+            assert.strictEqual(results.filter((result) => result.status === 'fulfilled').length, 1);
+            for(const result of results) {
+                if(result.status === 'rejected') assertFSError(result.reason, 'EEXIST');
+            }
+        });
+
+        it("should append with 'a'", async () => {
+            await file_ops.writeFile("/log.txt", "a");
+            await file_ops.writeFile("/log.txt", "b", {flag: 'a'});
+            assert.equal(await file_ops.readFile("/log.txt", "utf-8"), "ab");
+        });
+
+        it("should throw EEXIST with 'ax' when the file exists", async () => {
+            await file_ops.writeFile("/log.txt", "a");
+            try {
+                await file_ops.writeFile("/log.txt", "b", {flag: 'ax'});
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EEXIST');
+            }
+        });
+
+        it("should throw EINVAL for an unknown flag", async () => {
+            try {
+                await file_ops.writeFile("/test.txt", "x", {flag: 'r' as 'w'});
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EINVAL');
+            }
+        });
+    });
+
+    context("createParents option", () => {
+        it("should throw ENOENT for a missing parent when false", async () => {
+            try {
+                await file_ops.writeFile("/missing/test.txt", "x", {createParents: false});
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'ENOENT');
+            }
+            assert.deepEqual(await dir_ops.readdir("/"), []);
+        });
+
+        it("should write into an existing parent when false", async () => {
+            await dir_ops.mkdir("/dir/");
+            await file_ops.writeFile("/dir/test.txt", "x", {createParents: false});
+            assert.equal(await file_ops.readFile("/dir/test.txt", "utf-8"), "x");
+        });
+    });
+
+    context("folders at the path", () => {
+        it("should throw EISDIR and leave the folder alone", async () => {
+            await dir_ops.mkdir("/dir/");
+            try {
+                await file_ops.writeFile("/dir", "x");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EISDIR');
+            }
+            assert.deepEqual(await dir_ops.readdir("/dir/"), []);
+        });
+    });
+
     context("error cases", () => {
         it("should throw ENOTDIR when parent is a file", async () => {
             await file_ops.writeFile("/file", "content");
@@ -110,6 +197,49 @@ describe("writeFile", () => {
         });
     });
 
+    context("permissions", () => {
+        it("should throw EACCES when the file is read-only", async () => {
+            await file_ops.writeFile("/template.txt", "template");
+            await createStatOps(core).chmod("/template.txt", 0o444);
+
+            try {
+                await file_ops.writeFile("/template.txt", "edited");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EACCES');
+            }
+
+            assert.strictEqual(await file_ops.readFile("/template.txt", "utf-8"), "template");
+        });
+
+        it("should throw EACCES when the folder is read-only", async () => {
+            await dir_ops.mkdir("/templates/");
+            await createStatOps(core).chmod("/templates/", 0o555);
+
+            for(const path of ["/templates/new.txt", "/templates/nested/new.txt"]) {
+                try {
+                    await file_ops.writeFile(path, "new");
+                    assert.fail("Expected error");
+                } catch (err) {
+                    assertFSError(err, 'EACCES');
+                }
+            }
+
+            assert.deepEqual(await dir_ops.readdir("/templates/"), []);
+        });
+
+        it("should allow the write when permissions are not enforced", async () => {
+            await file_ops.writeFile("/template.txt", "template");
+            await createStatOps(core).chmod("/template.txt", 0o444);
+
+            const admin_core = createFSCore("test-fs-writefile", {enforcePermissions: false});
+            await createFileOps(admin_core).writeFile("/template.txt", "edited");
+            (await admin_core.getDB()).close();
+
+            assert.strictEqual(await file_ops.readFile("/template.txt", "utf-8"), "edited");
+        });
+    });
+
     context("path validation", () => {
         it("should throw EINVAL for non-absolute path", async () => {
             try {
@@ -191,6 +321,32 @@ describe("readFile", () => {
         });
     });
 
+    context("reading with other encodings", () => {
+        it("should read as base64 and hex", async () => {
+            await file_ops.writeFile("/data.bin", new Uint8Array([0xFB, 0xFF, 0x00]));
+
+            assert.equal(await file_ops.readFile("/data.bin", "base64"), "+/8A");
+            assert.equal(await file_ops.readFile("/data.bin", "hex"), "fbff00");
+        });
+
+        it("should round-trip content written with the same encoding", async () => {
+            await file_ops.writeFile("/image.png", "iVBORw0KGgo=", {encoding: 'base64'});
+
+            assert.deepEqual(await file_ops.readFile("/image.png"), new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]));
+            assert.equal(await file_ops.readFile("/image.png", "base64"), "iVBORw0KGgo=");
+        });
+
+        it("should throw EINVAL for an unknown encoding", async () => {
+            await file_ops.writeFile("/test.txt", "x");
+            try {
+                await file_ops.readFile("/test.txt", "utf-32" as 'utf-8');
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EINVAL');
+            }
+        });
+    });
+
     context("reading from nested paths", () => {
         it("should read file from nested directory", async () => {
             await file_ops.writeFile("/a/b/c/file.txt", "nested content");
@@ -283,3 +439,231 @@ describe("readFile", () => {
         });
     });
 });
+
+describe("appendFile", () => {
+    let core: FSCore;
+    let dir_ops: DirOps;
+    let file_ops: FileOps;
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-appendfile");
+        await core.reset();
+        dir_ops = createDirOps(core);
+        file_ops = createFileOps(core);
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    it("should create a missing file along with its parents", async () => {
+        await file_ops.appendFile("/logs/today.txt", "first");
+
+        assert.equal(await file_ops.readFile("/logs/today.txt", "utf-8"), "first");
+        assert.deepEqual(await dir_ops.readdir("/logs/"), ["today.txt"]);
+    });
+
+    it("should append to an existing file", async () => {
+        await file_ops.writeFile("/log.txt", "a");
+        await file_ops.appendFile("/log.txt", "b");
+        await file_ops.appendFile("/log.txt", new Uint8Array([99]));
+
+        assert.equal(await file_ops.readFile("/log.txt", "utf-8"), "abc");
+    });
+
+    it("should not lose data with concurrent appends", async () => {
+        const lines = Array.from({length: 20}, (_, i) => `line ${i}\n`);
+        await Promise.all(lines.map((line) => file_ops.appendFile("/log.txt", line)));
+
+        const content = await file_ops.readFile("/log.txt", "utf-8");
+        assert.equal(content.length, lines.join("").length);
+        for(const line of lines) {
+            assert.include(content, line);
+        }
+    });
+
+    it("should throw EISDIR when a folder exists at the path", async () => {
+        await dir_ops.mkdir("/folder/");
+        try {
+            await file_ops.appendFile("/folder", "x");
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'EISDIR');
+        }
+    });
+
+    it("should emit 'rename' on creation and 'change' afterwards", async () => {
+        const events: WatchEvent[] = [];
+        const unsubscribe = core.subscribe((event) => events.push(event));
+
+        await file_ops.appendFile("/dir/log.txt", "a");
+        await file_ops.appendFile("/dir/log.txt", "b");
+        unsubscribe();
+
+        assert.deepEqual(events, [
+            {eventType: 'rename', filename: '/dir/'},
+            {eventType: 'rename', filename: '/dir/log.txt'},
+            {eventType: 'change', filename: '/dir/log.txt'},
+        ]);
+    });
+});
+
+describe("updateFile", () => {
+    let core: FSCore;
+    let dir_ops: DirOps;
+    let file_ops: FileOps;
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-updatefile");
+        await core.reset();
+        dir_ops = createDirOps(core);
+        file_ops = createFileOps(core);
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    it("should pass null for a missing file and create it", async () => {
+        let received: unknown;
+        await file_ops.updateFile("/dir/state.txt", (old) => {
+            received = old;
+            return "created";
+        });
+
+        assert.isNull(received);
+        assert.equal(await file_ops.readFile("/dir/state.txt", "utf-8"), "created");
+    });
+
+    it("should pass the current content", async () => {
+        await file_ops.writeFile("/counter.txt", "41");
+
+        await file_ops.updateFile("/counter.txt", (old) => `${Number(new TextDecoder().decode(old!)) + 1}`);
+
+        assert.equal(await file_ops.readFile("/counter.txt", "utf-8"), "42");
+    });
+
+    it("should not lose concurrent updates", async () => {
+        await file_ops.writeFile("/counter.txt", "0");
+
+        await Promise.all(Array.from({length: 10}, () => file_ops.updateFile(
+            "/counter.txt",
+            (old) => `${Number(new TextDecoder().decode(old!)) + 1}`,
+        )));
+
+        assert.equal(await file_ops.readFile("/counter.txt", "utf-8"), "10");
+    });
+
+    it("should cancel when the updater returns undefined", async () => {
+        await file_ops.updateFile("/dir/missing.txt", () => undefined);
+
+        assert.deepEqual(await dir_ops.readdir("/"), []);
+    });
+
+    it("should detect in-place edits of the old content", async () => {
+        await file_ops.writeFile("/data.bin", new Uint8Array([1, 2]));
+
+        await file_ops.updateFile("/data.bin", (old) => {
+            old![0] = 9;
+            return old!;
+        });
+
+        assert.deepEqual(await file_ops.readFile("/data.bin"), new Uint8Array([9, 2]));
+    });
+
+    it("should roll back when the updater throws", async () => {
+        try {
+            await file_ops.updateFile("/dir/state.txt", () => {
+                throw new Error("boom");
+            });
+            assert.fail("Expected error");
+        } catch (err) {
+            assert.equal((err as Error).message, "boom");
+        }
+
+        assert.deepEqual(await dir_ops.readdir("/"), []);
+    });
+
+    it("should throw EISDIR when a folder exists at the path", async () => {
+        await dir_ops.mkdir("/folder/");
+        try {
+            await file_ops.updateFile("/folder", () => "x");
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'EISDIR');
+        }
+    });
+
+    it("should throw EINVAL for an invalid path before opening a transaction", async () => {
+        let transaction_count = 0;
+        const counting_core: FSCore = {
+            ...core,
+            transaction: ((mode: 'readwrite') => {
+                ++transaction_count;
+                return core.transaction(mode);
+            }) as FSCore['transaction'],
+        };
+
+        try {
+            await createFileOps(counting_core).updateFile("relative.txt", () => "x");
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'EINVAL');
+        }
+
+        assert.strictEqual(transaction_count, 0);
+    });
+
+    it("should emit events only when the content changes", async () => {
+        await file_ops.writeFile("/state.txt", "same");
+
+        const events: WatchEvent[] = [];
+        const unsubscribe = core.subscribe((event) => events.push(event));
+
+        await file_ops.updateFile("/state.txt", () => "same");
+        await file_ops.updateFile("/state.txt", () => undefined);
+        await file_ops.updateFile("/state.txt", () => "different");
+        unsubscribe();
+
+        assert.deepEqual(events, [
+            {eventType: 'change', filename: '/state.txt'},
+        ]);
+    });
+});
+
+describe("updateJSON", () => {
+    let core: FSCore;
+    let file_ops: FileOps;
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-updatejson");
+        await core.reset();
+        file_ops = createFileOps(core);
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    it("should create, then update a JSON file", async () => {
+        interface State {count: number}
+
+        await file_ops.updateJSON<State>("/state.json", (old) => ({count: (old?.count ?? 0) + 1}));
+        await file_ops.updateJSON<State>("/state.json", (old) => ({count: (old?.count ?? 0) + 1}));
+
+        assert.deepEqual(JSON.parse(await file_ops.readFile("/state.json", "utf-8")), {count: 2});
+    });
+
+    it("should reject invalid JSON without writing", async () => {
+        await file_ops.writeFile("/state.json", "{");
+
+        try {
+            await file_ops.updateJSON("/state.json", () => ({}));
+            assert.fail("Expected error");
+        } catch (err) {
+            assert.instanceOf(err, SyntaxError);
+        }
+
+        assert.equal(await file_ops.readFile("/state.json", "utf-8"), "{");
+    });
+});
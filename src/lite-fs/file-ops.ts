@@ -1,21 +1,71 @@
 export type {FileOps} from "../api/file-ops.ts";
-import type {FileOps} from "../api/file-ops.ts";
+import type {FileOps, FileUpdater, WriteFileFlag, WriteFileOptions} from "../api/file-ops.ts";
+import type {FileHandle, OpenFlags} from "../api/file-handle.ts";
 
-import {validatePath} from "../path.ts";
+import {validatePath, type AbsoluteFilePath, type AbsoluteFolderPath} from "../path.ts";
+import {decodeBuffer, isEncoding, toBytes} from "../encoding.ts";
 import {FSError} from "../error.ts";
-import type {FSBuffer} from "../api/index.ts";
+import type {FSBuffer, FSEncoding} from "../api/index.ts";
 
-import {createDBFileEntry, ensureParentDirs, getEntryByPath, putEntryByPath, type FSCore} from "./core/index.ts";
+import {
+    abortTransaction,
+    allocateIno,
+    checkParentDir,
+    checkParentWritable,
+    checkWritable,
+    createDBFileEntry,
+    ensureParentDirs,
+    modifyDBEntry,
+    putContent,
+    putEntry,
+    readContent,
+    recordAccess,
+    resolvePath,
+    toStoragePath,
+    touchParentDir,
+    writeContent,
+    type DBFileEntry,
+    type FSCore,
+    type FSWriteTransaction,
+} from "./core/index.ts";
+import {checkNoEntry, openFileHandle} from "./file-handle.ts";
+
+function isSameContent(a: Uint8Array, b: Uint8Array): boolean {
+    return a.byteLength === b.byteLength && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Replaces the content of the file at `path`.
+ * If `existing` is missing, creates the file under a new ino instead, updating its parent folder.
+ */
+async function replaceFile(tx: FSWriteTransaction, path: AbsoluteFilePath, existing: DBFileEntry | null, bytes: Uint8Array): Promise<void> {
+    const ino = existing?.ino ?? await allocateIno(tx);
+    await putContent(tx, ino, bytes);
+
+    const entry = existing
+        ? modifyDBEntry(existing, {size: bytes.byteLength})
+        : createDBFileEntry(path, ino, bytes.byteLength);
+    await putEntry(tx, toStoragePath(path), entry);
+
+    if(!existing) {
+        await touchParentDir(tx, path);
+    }
+}
+
+const WRITE_FILE_FLAGS: ReadonlySet<string> = new Set<WriteFileFlag>(['w', 'wx', 'a', 'ax']);
 
 export function createFileOps(core: FSCore): FileOps {
     async function readFile(path: string): Promise<FSBuffer>;
-    async function readFile(path: string, encoding: 'utf-8'): Promise<string>;
-    async function readFile(in_path: string, encoding?: 'utf-8'): Promise<FSBuffer | string> {
+    async function readFile(path: string, encoding: FSEncoding): Promise<string>;
+    async function readFile(in_path: string, encoding?: FSEncoding): Promise<FSBuffer | string> {
         const path = validatePath(in_path, 'file');
+        if(encoding != null && !isEncoding(encoding)) {
+            throw FSError.EINVAL(path, 'read');
+        }
 
-        const db = await core.getDB();
-        const entry = await getEntryByPath(db, path);
+        const tx = await core.transaction('readonly');
 
+        const {entry} = await resolvePath(tx, path, 'read');
         if(!entry) {
             throw FSError.ENOENT(path, 'read');
         }
@@ -23,30 +73,140 @@ export function createFileOps(core: FSCore): FileOps {
             throw FSError.EISDIR(path, 'read');
         }
 
-        const content = entry.content;
-        return encoding === 'utf-8'
-            ? new TextDecoder().decode(content)
+        const content = await readContent(tx, entry.ino, entry.size);
+        await core.commit(tx);
+
+        await recordAccess(core, entry.ino);
+
+        return encoding != null
+            ? decodeBuffer(content, encoding)
             : content;
     }
 
-    async function writeFile(in_path: string, content: string | FSBuffer): Promise<void> {
-        const path = validatePath(in_path, 'file');
+    /** Writes `bytes` to `path` as `flag` dictates, in one transaction. */
+    async function writeBytes(in_path: AbsoluteFilePath, bytes: FSBuffer, flag: WriteFileFlag, create_parents: boolean): Promise<void> {
+        const is_append = flag.startsWith('a');
+        const is_exclusive = flag.endsWith('x');
+
+        // Parent folders, the existence check and the write all happen in one transaction,
+        // so concurrent writes (and `wx` claims) are serialized by IndexedDB.
+        const tx = await core.transaction('readwrite');
+
+        if(is_exclusive) {
+            await checkNoEntry(tx, in_path, 'open');
+        }
+
+        const {path, entry: existing} = await resolvePath(tx, in_path, 'open');
+        if(existing?.type === 'folder') {
+            throw FSError.EISDIR(path, 'open');
+        }
+
+        const key = toStoragePath(path);
+        if(!create_parents) {
+            await checkParentDir(tx, path, 'open');
+        }
+
+        if(existing) {
+            checkWritable(core, existing, path, 'open');
+        } else {
+            await checkParentWritable(core, tx, path, 'open');
+        }
+
+        const is_new_file = existing == null;
+        let created_dirs: AbsoluteFolderPath[] = [];
+
+        if(create_parents) {
+            created_dirs = await ensureParentDirs(core, tx, path);
+        }
+
+        try {
+            if(existing && is_append) {
+                const size = await writeContent(tx, existing.ino, existing.size, bytes, existing.size);
+                await putEntry(tx, key, modifyDBEntry(existing, {size}));
+            } else {
+                await replaceFile(tx, path, existing, bytes);
+            }
+        } catch(e) {
+            abortTransaction(tx);
+            throw e;
+        }
+
+        await core.commit(tx);
 
-        const db = await core.getDB();
-        const created_dirs = await ensureParentDirs(db, path);
         for(const dir of created_dirs) {
             core.emit({eventType: 'rename', filename: dir});
         }
 
-        const existing = await getEntryByPath(db, path);
-        const is_new_file = !existing || existing.type !== 'file';
+        core.emit({
+            eventType: is_new_file ? 'rename' : 'change',
+            filename: path,
+        });
+    }
 
-        const bytes = typeof content === 'string'
-            ? new TextEncoder().encode(content)
-            : content;
+    async function writeFile(in_path: string, content: string | FSBuffer, options?: WriteFileOptions): Promise<void> {
+        const path = validatePath(in_path, 'file');
+
+        const flag = options?.flag ?? 'w';
+        const encoding = options?.encoding ?? 'utf-8';
+        if(!WRITE_FILE_FLAGS.has(flag) || !isEncoding(encoding)) {
+            throw FSError.EINVAL(path, 'open');
+        }
+
+        await writeBytes(path, toBytes(content, encoding), flag, options?.createParents ?? true);
+    }
+
+    async function appendFile(in_path: string, content: string | FSBuffer): Promise<void> {
+        const path = validatePath(in_path, 'file');
+
+        await writeBytes(path, toBytes(content), 'a', true);
+    }
+
+    async function updateFile(in_path: string, updater: FileUpdater): Promise<void> {
+        const in_file_path = validatePath(in_path, 'file');
+
+        // `updater` is synchronous, so the read and the write share one transaction
+        // and concurrent updates are serialized by IndexedDB.
+        const tx = await core.transaction('readwrite');
+
+        const {path, entry: existing} = await resolvePath(tx, in_file_path, 'open');
+        if(existing?.type === 'folder') {
+            throw FSError.EISDIR(path, 'open');
+        }
+
+        if(existing) {
+            checkWritable(core, existing, path, 'open');
+        } else {
+            await checkParentWritable(core, tx, path, 'open');
+        }
 
-        const entry = createDBFileEntry(path, bytes);
-        await putEntryByPath(db, path, entry);
+        const old_content = existing ? await readContent(tx, existing.ino, existing.size) : null;
+        // Passes a copy, so that in-place edits are still detected as changes.
+        const result = updater(old_content && old_content.slice());
+
+        const bytes = result === undefined ? null : toBytes(result);
+        const is_changed = bytes != null && (old_content == null || !isSameContent(old_content, bytes));
+        const is_new_file = existing == null;
+        let created_dirs: AbsoluteFolderPath[] = [];
+
+        if(is_changed) {
+            if(is_new_file) {
+                created_dirs = await ensureParentDirs(core, tx, path);
+            }
+
+            try {
+                await replaceFile(tx, path, existing, bytes);
+            } catch(e) {
+                abortTransaction(tx);
+                throw e;
+            }
+        }
+
+        await core.commit(tx);
+        if(!is_changed) return;
+
+        for(const dir of created_dirs) {
+            core.emit({eventType: 'rename', filename: dir});
+        }
 
         core.emit({
             eventType: is_new_file ? 'rename' : 'change',
@@ -54,5 +214,17 @@ export function createFileOps(core: FSCore): FileOps {
         });
     }
 
-    return {readFile, writeFile};
+    async function updateJSON<T>(path: string, updater: (old: T | null) => T | undefined): Promise<void> {
+        await updateFile(path, (old_content) => {
+            const next = updater(old_content == null ? null : JSON.parse(decodeBuffer(old_content, 'utf-8')) as T);
+            return next === undefined ? undefined : JSON.stringify(next);
+        });
+    }
+
+    async function open(in_path: string, flags: OpenFlags = 'r'): Promise<FileHandle> {
+        const path = validatePath(in_path, 'file');
+        return await openFileHandle(core, path, flags);
+    }
+
+    return {readFile, writeFile, appendFile, updateFile, updateJSON, open};
 }
@@ -0,0 +1,168 @@
+import "fake-indexeddb/auto";
+import {assert} from "chai";
+import {createFSCore, type FSCore} from "./core/index.ts";
+import {createDirOps, type DirOps} from "./dir-ops.ts";
+import {createFileOps, type FileOps} from "./file-ops.ts";
+import {createGlobOps, type GlobOps} from "./glob-ops.ts";
+import {createLinkOps} from "./link-ops.ts";
+import {assertFSError} from "../error.ts";
+
+async function collect<T>(iterator: AsyncIterableIterator<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterator) {
+        items.push(item);
+    }
+    return items;
+}
+
+describe("glob", () => {
+    let core: FSCore;
+    let dir_ops: DirOps;
+    let file_ops: FileOps;
+    let glob_ops: GlobOps;
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-glob");
+        await core.reset();
+        dir_ops = createDirOps(core);
+        file_ops = createFileOps(core);
+        glob_ops = createGlobOps(core);
+
+        await file_ops.writeFile("/notes/a.md", "a");
+        await file_ops.writeFile("/notes/b.txt", "b");
+        await file_ops.writeFile("/notes/2024/c.md", "c");
+        await file_ops.writeFile("/notes/.drafts/d.md", "d");
+        await file_ops.writeFile("/app/package.json", "{}");
+        await file_ops.writeFile("/app/src/index.ts", "index");
+        await file_ops.writeFile("/app/src/view.tsx", "view");
+        await file_ops.writeFile("/app/node_modules/dep/package.json", "{}");
+        await dir_ops.mkdir("/app/empty/");
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    context("patterns", () => {
+        it("should match names with * in one folder", async () => {
+            assert.deepEqual(await collect(glob_ops.glob("*.md", {cwd: "/notes/"})), ["/notes/a.md"]);
+        });
+
+        it("should match any depth with **", async () => {
+            assert.sameMembers(await collect(glob_ops.glob("/notes/**/*.md")), ["/notes/a.md", "/notes/2024/c.md"]);
+            assert.sameMembers(await collect(glob_ops.glob("**/package.json")), ["/app/package.json", "/app/node_modules/dep/package.json"]);
+        });
+
+        it("should match any of several patterns once each", async () => {
+            const paths = await collect(glob_ops.glob(["/notes/*.md", "/notes/a.*"]));
+            assert.deepEqual(paths, ["/notes/a.md"]);
+        });
+
+        it("should expand braces", async () => {
+            assert.deepEqual(await collect(glob_ops.glob("app/src/*.{ts,tsx}")), ["/app/src/index.ts", "/app/src/view.tsx"]);
+        });
+
+        it("should match ? and character sets", async () => {
+            assert.deepEqual(await collect(glob_ops.glob("/notes/?.[a-m]*")), ["/notes/a.md"]);
+            assert.deepEqual(await collect(glob_ops.glob("/notes/[!a].*")), ["/notes/b.txt"]);
+        });
+
+        it("should return folders with a trailing slash", async () => {
+            assert.sameMembers(await collect(glob_ops.glob("/app/*")), ["/app/package.json", "/app/src/", "/app/node_modules/", "/app/empty/"]);
+        });
+
+        it("should only match folders with a trailing slash", async () => {
+            assert.sameMembers(await collect(glob_ops.glob("/app/*/")), ["/app/src/", "/app/node_modules/", "/app/empty/"]);
+        });
+
+        it("should yield folders before their contents", async () => {
+            const paths = await collect(glob_ops.glob("/notes/**"));
+            assert.isBelow(paths.indexOf("/notes/2024/"), paths.indexOf("/notes/2024/c.md"));
+            assert.include(paths, "/notes/");
+        });
+
+        it("should not yield cwd itself", async () => {
+            assert.notInclude(await collect(glob_ops.glob("**", {cwd: "/notes/"})), "/notes/");
+        });
+
+        it("should throw EINVAL for invalid patterns", () => {
+            for(const pattern of ["", "/", "a//b", "../a", "./a"]) {
+                try {
+                    glob_ops.glob(pattern);
+                    assert.fail("Expected error");
+                } catch (err) {
+                    assertFSError(err, 'EINVAL');
+                }
+            }
+        });
+    });
+
+    context("options", () => {
+        it("should leave out ignored entries, and not descend into ignored folders", async () => {
+            const paths = await collect(glob_ops.glob("**/package.json", {ignore: "**/node_modules/**"}));
+            assert.deepEqual(paths, ["/app/package.json"]);
+        });
+
+        it("should only yield files with onlyFiles", async () => {
+            const paths = await collect(glob_ops.glob("/app/**", {onlyFiles: true}));
+            assert.sameMembers(paths, ["/app/package.json", "/app/src/index.ts", "/app/src/view.tsx", "/app/node_modules/dep/package.json"]);
+        });
+
+        it("should match hidden names only with dot, or when the pattern names them", async () => {
+            assert.notInclude(await collect(glob_ops.glob("/notes/**/*.md")), "/notes/.drafts/d.md");
+            assert.include(await collect(glob_ops.glob("/notes/**/*.md", {dot: true})), "/notes/.drafts/d.md");
+            assert.deepEqual(await collect(glob_ops.glob("/notes/.drafts/*")), ["/notes/.drafts/d.md"]);
+        });
+
+        it("should yield Dirent objects with withFileTypes", async () => {
+            const dirents = await collect(glob_ops.glob("/app/*", {withFileTypes: true}));
+
+            const src = dirents.find((dirent) => dirent.name === "src")!;
+            assert.isTrue(src.isDirectory());
+            assert.strictEqual(src.parentPath, "/app/");
+        });
+    });
+
+    context("links", () => {
+        beforeEach(async () => {
+            await createLinkOps(core).symlink("/notes", "/lnk");
+        });
+
+        it("should follow a link in cwd", async () => {
+            assert.deepEqual(await collect(glob_ops.glob("**/*.txt", {cwd: "/lnk/"})), ["/lnk/b.txt"]);
+        });
+
+        it("should follow links in literal segments", async () => {
+            assert.deepEqual(await collect(glob_ops.glob("/lnk/*.md")), ["/lnk/a.md"]);
+            assert.deepEqual(await collect(glob_ops.glob("/lnk/2024/*")), ["/lnk/2024/c.md"]);
+        });
+
+        it("should give parent paths under a link with withFileTypes", async () => {
+            const dirents = await collect(glob_ops.glob("/lnk/2024/*", {withFileTypes: true}));
+            assert.deepEqual(dirents.map(({parentPath, name}) => `${parentPath}${name}`), ["/lnk/2024/c.md"]);
+        });
+
+        it("should not follow links matched by wildcards", async () => {
+            await createLinkOps(core).symlink("/notes", "/notes/loop");
+
+            assert.sameMembers(await collect(glob_ops.glob("/notes/**/*.md")), ["/notes/a.md", "/notes/2024/c.md"]);
+            assert.include(await collect(glob_ops.glob("/*")), "/lnk");
+        });
+    });
+
+    it("should only read the folders that may match", async () => {
+        let transaction_count = 0;
+        const counting_core: FSCore = {
+            ...core,
+            transaction: ((mode: 'readonly') => {
+                ++transaction_count;
+                return core.transaction(mode);
+            }) as FSCore['transaction'],
+        };
+
+        const paths = await collect(createGlobOps(counting_core).glob("/notes/2024/*.md"));
+
+        assert.deepEqual(paths, ["/notes/2024/c.md"]);
+        assert.strictEqual(transaction_count, 3);
+    });
+});
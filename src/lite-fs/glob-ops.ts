@@ -0,0 +1,317 @@
+export type {GlobOps} from "../api/glob-ops.ts";
+import type {GlobOps, GlobOptions} from "../api/glob-ops.ts";
+import type {Dirent} from "../api/dir-ops.ts";
+
+import {FSError, isFSError} from "../error.ts";
+import {validatePath, type AbsoluteFolderPath, type AbsolutePath} from "../path.ts";
+import {
+    getEntry,
+    readChildren,
+    resolvePath,
+    toStoragePath,
+    type DBEntry,
+    type FSCore,
+    type FSTransaction,
+} from "./core/index.ts";
+import {createDirent} from "./dir.ts";
+
+type Segment =
+    | {type: 'literal'; name: string}
+    | {type: 'pattern'; regex: RegExp; matches_dot: boolean}
+    | {type: 'globstar'};
+
+interface Pattern {
+    segments: Segment[];
+
+    /** Set by a trailing `/`: only folders match. */
+    folder_only: boolean;
+
+    /** Number of leading segments taken from `cwd`; a relative pattern never matches `cwd` or its parents. */
+    base_depth: number;
+}
+
+/**
+ * Positions reached in each pattern, as indices of the next segment to match.
+ * Tracking every position at once lets a single walk match all patterns.
+ */
+type MatchState = Map<Pattern, Set<number>>;
+
+/** Expands `{a,b}` alternatives, including nested ones, into separate patterns. */
+function expandBraces(pattern: string): string[] {
+    const start = pattern.indexOf('{');
+    if(start < 0) return [pattern];
+
+    let depth = 0;
+    const commas: number[] = [];
+
+    for(let i = start; i < pattern.length; ++i) {
+        const ch = pattern[i];
+        if(ch === '{') {
+            ++depth;
+        } else if(ch === ',' && depth === 1) {
+            commas.push(i);
+        } else if(ch === '}' && --depth === 0) {
+            const prefix = pattern.slice(0, start);
+            const suffix = pattern.slice(i + 1);
+
+            // Without alternatives, the braces are literal.
+            if(commas.length === 0) {
+                return expandBraces(suffix).map((rest) => `${pattern.slice(0, i + 1)}${rest}`);
+            }
+
+            const bounds = [start, ...commas, i];
+            return bounds.slice(1).flatMap((end, j) => expandBraces(`${prefix}${pattern.slice(bounds[j]! + 1, end)}${suffix}`));
+        }
+    }
+
+    return [pattern];
+}
+
+function compileSegment(segment: string): Segment {
+    if(segment === '**') return {type: 'globstar'};
+    if(!/[*?[]/.test(segment)) return {type: 'literal', name: segment};
+
+    let source = '';
+    for(let i = 0; i < segment.length; ++i) {
+        const ch = segment[i]!;
+        if(ch === '*') {
+            source += '.*';
+        } else if(ch === '?') {
+            source += '.';
+        } else if(ch === '[' && segment.indexOf(']', i + 1) > i) {
+            const end = segment.indexOf(']', i + 1);
+            let set = segment.slice(i + 1, end);
+
+            const is_negated = set.startsWith('!') || set.startsWith('^');
+            if(is_negated) set = set.slice(1);
+
+            source += `[${is_negated ? '^' : ''}${set.replace(/[\\\]^]/g, '\\$&')}]`;
+            i = end;
+        } else {
+            source += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return {type: 'pattern', regex: new RegExp(`^${source}$`), matches_dot: segment.startsWith('.')};
+}
+
+function compilePatterns(in_patterns: string | string[], cwd: AbsoluteFolderPath): Pattern[] {
+    const base: Segment[] = cwd.split('/').filter(Boolean).map((name) => ({type: 'literal', name}));
+
+    return [in_patterns].flat().flatMap(expandBraces).map((pattern) => {
+        const is_absolute = pattern.startsWith('/');
+        const folder_only = pattern.endsWith('/');
+
+        const parts = pattern.slice(is_absolute ? 1 : 0, folder_only ? -1 : undefined).split('/');
+        if(parts.some((part) => part === '' || part === '.' || part === '..')) {
+            throw FSError.EINVAL(pattern, 'glob');
+        }
+
+        const prefix = is_absolute ? [] : base;
+        return {
+            segments: [...prefix, ...parts.map(compileSegment)],
+            folder_only,
+            base_depth: prefix.length,
+        };
+    });
+}
+
+/** Adds the position of `pattern` before segment `index`, along with the ones reached by skipping globstars. */
+function addPosition(state: MatchState, pattern: Pattern, index: number): void {
+    let indices = state.get(pattern);
+    if(!indices) {
+        indices = new Set();
+        state.set(pattern, indices);
+    }
+
+    for(; !indices.has(index); ++index) {
+        indices.add(index);
+        if(pattern.segments[index]?.type !== 'globstar') break;
+    }
+}
+
+function createState(patterns: Pattern[]): MatchState {
+    const state: MatchState = new Map();
+    for(const pattern of patterns) {
+        addPosition(state, pattern, 0);
+    }
+    return state;
+}
+
+/** Advances `state` past an entry named `name`. */
+function step(state: MatchState, name: string, dot: boolean): MatchState {
+    const next: MatchState = new Map();
+    const is_hidden = name.startsWith('.');
+
+    for(const [pattern, indices] of state) {
+        for(const index of indices) {
+            const segment = pattern.segments[index];
+            if(segment == null) continue;
+
+            if(segment.type === 'globstar') {
+                if(dot || !is_hidden) addPosition(next, pattern, index);
+                continue;
+            }
+
+            const is_match = segment.type === 'literal'
+                ? segment.name === name
+                : (dot || segment.matches_dot || !is_hidden) && segment.regex.test(name);
+
+            if(is_match) addPosition(next, pattern, index + 1);
+        }
+    }
+
+    return next;
+}
+
+/** Whether `state`, reached at an entry `depth` segments deep, completes a pattern. */
+function isMatch(state: MatchState, is_folder: boolean, depth: number): boolean {
+    for(const [pattern, indices] of state) {
+        if(indices.has(pattern.segments.length) && (is_folder || !pattern.folder_only) && depth > pattern.base_depth) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/** Whether entries under a folder reached with `state` may still match. */
+function canDescend(state: MatchState): boolean {
+    for(const [pattern, indices] of state) {
+        for(const index of indices) {
+            if(index < pattern.segments.length) return true;
+        }
+    }
+    return false;
+}
+
+/** Whether `name` matches a literal segment at a position of `state`. */
+function isLiteralMatch(state: MatchState, name: string): boolean {
+    for(const [pattern, indices] of state) {
+        for(const index of indices) {
+            const segment = pattern.segments[index];
+            if(segment?.type === 'literal' && segment.name === name) return true;
+        }
+    }
+    return false;
+}
+
+interface Candidate {
+    name: string;
+    entry: DBEntry;
+
+    /** Folder holding the children of the entry: the entry itself, or the one a followed link leads to. */
+    folder: AbsoluteFolderPath | null;
+}
+
+/**
+ * Finds the folder that `entry`, named `name` in `folder`, stands for.
+ * Links are only followed through literal segments, such as those of `cwd`, so that globstars cannot loop through them.
+ */
+async function toFolder(tx: FSTransaction, folder: AbsoluteFolderPath, name: string, entry: DBEntry, state: MatchState): Promise<AbsoluteFolderPath | null> {
+    const path = `${folder}${name}/` as AbsoluteFolderPath;
+    if(entry.type === 'folder') return path;
+    if(entry.type !== 'symlink' || !isLiteralMatch(state, name)) return null;
+
+    try {
+        const {path: real_path, entry: target} = await resolvePath(tx, path, 'glob');
+        return target?.type === 'folder' ? real_path : null;
+    } catch(e) {
+        if(isFSError(e, 'ELOOP')) return null;
+        throw e;
+    }
+}
+
+/** Names that `state` may match, or `null` when a segment other than a literal may match any name. */
+function getLiteralNames(state: MatchState): Set<string> | null {
+    const names = new Set<string>();
+    for(const [pattern, indices] of state) {
+        for(const index of indices) {
+            const segment = pattern.segments[index];
+            if(segment == null) continue;
+            if(segment.type !== 'literal') return null;
+
+            names.add(segment.name);
+        }
+    }
+    return names;
+}
+
+/**
+ * Reads the children of `folder` that `state` may match.
+ * When only literal names can match, just those are looked up instead of listing the folder.
+ */
+async function readCandidates(tx: FSTransaction, folder: AbsoluteFolderPath, state: MatchState): Promise<Candidate[]> {
+    const names = getLiteralNames(state);
+
+    let children: Array<{name: string; entry: DBEntry}>;
+    if(names) {
+        children = [];
+        for(const name of [...names].sort()) {
+            const entry = await getEntry(tx, toStoragePath(`${folder}${name}`));
+            if(entry) children.push({name, entry});
+        }
+    } else {
+        children = await readChildren(tx, toStoragePath(folder));
+    }
+
+    const candidates: Candidate[] = [];
+    for(const {name, entry} of children) {
+        candidates.push({name, entry, folder: await toFolder(tx, folder, name, entry, state)});
+    }
+
+    return candidates;
+}
+
+export function createGlobOps(core: FSCore): GlobOps {
+    function glob(pattern: string | string[], options?: GlobOptions & {withFileTypes?: false}): AsyncIterableIterator<AbsolutePath>;
+    function glob(pattern: string | string[], options: GlobOptions & {withFileTypes: true}): AsyncIterableIterator<Dirent>;
+    function glob(in_pattern: string | string[], options?: GlobOptions): AsyncIterableIterator<AbsolutePath | Dirent> {
+        const cwd = validatePath(options?.cwd ?? '/', 'folder');
+
+        const patterns = compilePatterns(in_pattern, cwd);
+        const ignore = compilePatterns(options?.ignore ?? [], cwd);
+        if(patterns.length === 0) {
+            throw FSError.EINVAL(cwd, 'glob');
+        }
+
+        const dot = options?.dot ?? false;
+        const only_files = options?.onlyFiles ?? false;
+        const with_file_types = options?.withFileTypes ?? false;
+
+        // Each folder is read in its own transaction, as the caller may await anything between entries.
+        // Paths are built from `folder`, as reached by the patterns, while children are read from `real_folder`.
+        async function* walk(
+            folder: AbsoluteFolderPath,
+            real_folder: AbsoluteFolderPath,
+            depth: number,
+            state: MatchState,
+            ignore_state: MatchState,
+        ): AsyncGenerator<AbsolutePath | Dirent> {
+            const tx = await core.transaction('readonly');
+            const children = await readCandidates(tx, real_folder, state);
+            await core.commit(tx);
+
+            for(const {name, entry, folder: child_folder} of children) {
+                const is_folder = child_folder != null;
+
+                const next_ignore_state = step(ignore_state, name, dot);
+                if(isMatch(next_ignore_state, is_folder, depth + 1)) continue;
+
+                const next_state = step(state, name, dot);
+                const path: AbsolutePath = is_folder ? `${folder}${name}/` : `${folder}${name}`;
+
+                if(isMatch(next_state, is_folder, depth + 1) && !(only_files && is_folder)) {
+                    yield with_file_types ? createDirent(entry, name, folder) : path;
+                }
+
+                if(child_folder && canDescend(next_state)) {
+                    yield* walk(path as AbsoluteFolderPath, child_folder, depth + 1, next_state, next_ignore_state);
+                }
+            }
+        }
+
+        return walk('/', '/', 0, createState(patterns), createState(ignore));
+    }
+
+    return {glob};
+}
@@ -1,54 +1,153 @@
-import type {Dirent, FileSystemAPI, FSBuffer, MkdirOptions, RmOptions, Stats, WatchEvent, WatchOptions} from "../api/index.ts";
-import {createFSCore, type FSCore} from "./core/index.ts";
+import type {
+    CpOptions,
+    Dir,
+    Dirent,
+    FileHandle,
+    FileUpdater,
+    FileSystemAPI,
+    FSBuffer,
+    FSEncoding,
+    GlobOptions,
+    LiteFSOptions,
+    MkdirOptions,
+    OpendirOptions,
+    OpenFlags,
+    ReaddirOptions,
+    ReadStreamOptions,
+    RmOptions,
+    Stats,
+    TimeLike,
+    TmpDir,
+    TmpOptions,
+    WalkEntry,
+    WalkOptions,
+    WatchEvent,
+    WatchOptions,
+    WriteFileOptions,
+    WriteStreamOptions,
+} from "../api/index.ts";
+import type {AbsoluteFolderPath, AbsolutePath} from "../path.ts";
+import {acquireFSCore, type FSCore} from "./core/index.ts";
+import {createCopyOps, type CopyOps} from "./copy-ops.ts";
 import {createDirOps, type DirOps} from "./dir-ops.ts";
 import {createFileOps, type FileOps} from "./file-ops.ts";
+import {createGlobOps, type GlobOps} from "./glob-ops.ts";
+import {createLinkOps, type LinkOps} from "./link-ops.ts";
 import {createRemoveOps, type RemoveOps} from "./remove-ops.ts";
 import {createRenameOps, type RenameOps} from "./rename-ops.ts";
 import {createStatOps, type StatOps} from "./stat-ops.ts";
+import {createStreamOps, sweepStaging, type StreamOps} from "./stream-ops.ts";
+import {createTmpOps, sweepTmp, type TmpOps} from "./tmp-ops.ts";
+import {createWalkOps, type WalkOps} from "./walk-ops.ts";
 import {createWatchOps, type WatchOps} from "./watch-ops.ts";
+import {runTransaction} from "./transaction.ts";
 
 export class LiteFS implements FileSystemAPI {
     readonly #core: FSCore;
 
+    readonly #copy_ops: CopyOps;
     readonly #file_ops: FileOps;
+    readonly #glob_ops: GlobOps;
     readonly #dir_ops: DirOps;
+    readonly #link_ops: LinkOps;
     readonly #remove_ops: RemoveOps;
     readonly #rename_ops: RenameOps;
     readonly #stat_ops: StatOps;
+    readonly #stream_ops: StreamOps;
+    readonly #tmp_ops: TmpOps;
+    readonly #walk_ops: WalkOps;
     readonly #watch_ops: WatchOps;
 
-    constructor(db_name: string = 'lite-fs') {
-        const core = this.#core = createFSCore(db_name);
+    constructor(db_name: string = 'lite-fs', options?: LiteFSOptions) {
+        const core = this.#core = acquireFSCore(db_name, options);
 
+        this.#copy_ops = createCopyOps(core);
         this.#file_ops = createFileOps(core);
+        this.#glob_ops = createGlobOps(core);
         this.#dir_ops = createDirOps(core);
+        this.#link_ops = createLinkOps(core);
         this.#remove_ops = createRemoveOps(core);
         this.#rename_ops = createRenameOps(core);
         this.#stat_ops = createStatOps(core);
+        this.#stream_ops = createStreamOps(core);
+        this.#tmp_ops = createTmpOps(core);
+        this.#walk_ops = createWalkOps(core);
         this.#watch_ops = createWatchOps(core);
+
+        if(options?.tmpMaxAge != null) {
+            sweepTmp(core, options.tmpMaxAge).catch(() => {
+                /* the next sweep may succeed */
+            });
+        }
+
+        sweepStaging(core).catch(() => {
+            /* the next sweep may succeed */
+        });
     }
 
     readFile(path: string): Promise<FSBuffer>;
-    readFile(path: string, encoding: 'utf-8'): Promise<string>;
-    readFile(path: string, encoding?: 'utf-8') {
+    readFile(path: string, encoding: FSEncoding): Promise<string>;
+    readFile(path: string, encoding?: FSEncoding) {
         return encoding
             ? this.#file_ops.readFile(path, encoding)
             : this.#file_ops.readFile(path);
     }
 
-    writeFile(path: string, content: string | FSBuffer) {
-        return this.#file_ops.writeFile(path, content);
+    writeFile(path: string, content: string | FSBuffer, options?: WriteFileOptions): Promise<void> {
+        return this.#file_ops.writeFile(path, content, options);
+    }
+
+    appendFile(path: string, content: string | FSBuffer): Promise<void> {
+        return this.#file_ops.appendFile(path, content);
+    }
+
+    updateFile(path: string, updater: FileUpdater): Promise<void> {
+        return this.#file_ops.updateFile(path, updater);
+    }
+
+    updateJSON<T>(path: string, updater: (old: T | null) => T | undefined): Promise<void> {
+        return this.#file_ops.updateJSON(path, updater);
+    }
+
+    open(path: string, flags?: OpenFlags): Promise<FileHandle> {
+        return this.#file_ops.open(path, flags);
+    }
+
+    copyFile(src: string, dest: string, mode?: number): Promise<void> {
+        return this.#copy_ops.copyFile(src, dest, mode);
+    }
+
+    cp(src: string, dest: string, options?: CpOptions): Promise<void> {
+        return this.#copy_ops.cp(src, dest, options);
     }
 
     mkdir(path: string, options?: MkdirOptions): Promise<void> {
         return this.#dir_ops.mkdir(path, options);
     }
 
-    readdir(path: string): Promise<string[]>;
-    readdir(path: string, options: {withFileTypes: true}): Promise<Dirent[]>;
-    readdir(path: string, options?: {withFileTypes: true}): Promise<string[] | Dirent[]> {
-        if(options) return this.#dir_ops.readdir(path, options);
-        else return this.#dir_ops.readdir(path);
+    readdir(path: string, options?: ReaddirOptions & {withFileTypes?: false}): Promise<string[]>;
+    readdir(path: string, options: ReaddirOptions & {withFileTypes: true}): Promise<Dirent[]>;
+    readdir(path: string, options?: ReaddirOptions): Promise<string[] | Dirent[]> {
+        if(options?.withFileTypes) return this.#dir_ops.readdir(path, {...options, withFileTypes: true});
+        else return this.#dir_ops.readdir(path, {...options, withFileTypes: false});
+    }
+
+    opendir(path: string, options?: OpendirOptions): Promise<Dir> {
+        return this.#dir_ops.opendir(path, options);
+    }
+
+    glob(pattern: string | string[], options?: GlobOptions & {withFileTypes?: false}): AsyncIterableIterator<AbsolutePath>;
+    glob(pattern: string | string[], options: GlobOptions & {withFileTypes: true}): AsyncIterableIterator<Dirent>;
+    glob(pattern: string | string[], options?: GlobOptions): AsyncIterableIterator<AbsolutePath | Dirent> {
+        if(options?.withFileTypes) return this.#glob_ops.glob(pattern, {...options, withFileTypes: true});
+        else return this.#glob_ops.glob(pattern, {...options, withFileTypes: false});
+    }
+
+    walk(root: string, options?: WalkOptions & {withStats?: false}): AsyncIterableIterator<WalkEntry>;
+    walk(root: string, options: WalkOptions & {withStats: true}): AsyncIterableIterator<WalkEntry & {stats: Stats}>;
+    walk(root: string, options?: WalkOptions): AsyncIterableIterator<WalkEntry> {
+        if(options?.withStats) return this.#walk_ops.walk(root, {...options, withStats: true});
+        else return this.#walk_ops.walk(root, {...options, withStats: false});
     }
 
     unlink(path: string): Promise<void> {
@@ -63,14 +162,80 @@ export class LiteFS implements FileSystemAPI {
         return this.#rename_ops.rename(old_path, new_path);
     }
 
+    link(existing_path: string, new_path: string): Promise<void> {
+        return this.#link_ops.link(existing_path, new_path);
+    }
+
+    symlink(target: string, path: string): Promise<void> {
+        return this.#link_ops.symlink(target, path);
+    }
+
+    readlink(path: string): Promise<string> {
+        return this.#link_ops.readlink(path);
+    }
+
+    realpath(path: string): Promise<AbsolutePath> {
+        return this.#link_ops.realpath(path);
+    }
+
     stat(path: string): Promise<Stats> {
         return this.#stat_ops.stat(path);
     }
 
+    lstat(path: string): Promise<Stats> {
+        return this.#stat_ops.lstat(path);
+    }
+
+    exists(path: string): Promise<boolean> {
+        return this.#stat_ops.exists(path);
+    }
+
+    access(path: string, mode?: number): Promise<void> {
+        return this.#stat_ops.access(path, mode);
+    }
+
+    chmod(path: string, mode: number): Promise<void> {
+        return this.#stat_ops.chmod(path, mode);
+    }
+
+    utimes(path: string, atime: TimeLike, mtime: TimeLike): Promise<void> {
+        return this.#stat_ops.utimes(path, atime, mtime);
+    }
+
+    createReadStream(path: string, options?: ReadStreamOptions): ReadableStream<FSBuffer> {
+        return this.#stream_ops.createReadStream(path, options);
+    }
+
+    createWriteStream(path: string, options?: WriteStreamOptions): WritableStream<string | Uint8Array> {
+        return this.#stream_ops.createWriteStream(path, options);
+    }
+
+    mkdtemp(prefix: string): Promise<AbsoluteFolderPath> {
+        return this.#tmp_ops.mkdtemp(prefix);
+    }
+
+    tmp(options?: TmpOptions): Promise<TmpDir> {
+        return this.#tmp_ops.tmp(options);
+    }
+
     watch(path: string, options?: WatchOptions): AsyncIterableIterator<WatchEvent> {
         return this.#watch_ops.watch(path, options);
     }
 
+    /**
+     * Runs `fn` in a single transaction: either every change it makes is committed, or none is.
+     *
+     * - Reads through `fs` see the writes made earlier through it.
+     * - If `fn` throws, or an operation fails after it has started writing, everything is rolled back.
+     * - Watch events are emitted only after the transaction commits.
+     *
+     * IndexedDB commits a transaction as soon as it is left idle,
+     * so `fn` must not await anything other than operations on `fs`.
+     */
+    transaction<T>(fn: (fs: FileSystemAPI) => Promise<T>): Promise<T> {
+        return runTransaction(this.#core, fn);
+    }
+
     dumpFiles(): Promise<Array<[path: string, content: FSBuffer]>> {
         return this.#core.dumpFiles();
     }
@@ -78,4 +243,12 @@ export class LiteFS implements FileSystemAPI {
     reset(): Promise<void> {
         return this.#core.reset();
     }
+
+    /**
+     * Releases this file system, which cannot be used afterwards.
+     * The connection to the database, shared by every `LiteFS` of the same name, is closed along with the last of them.
+     */
+    close(): Promise<void> {
+        return this.#core.close();
+    }
 }
@@ -0,0 +1,348 @@
+import "fake-indexeddb/auto";
+import {assert} from "chai";
+import {CHUNK_STORE_NAME, createFSCore, INODE_STORE_NAME, type FSCore} from "./core/index.ts";
+import {createCopyOps, type CopyOps} from "./copy-ops.ts";
+import {createDirOps, type DirOps} from "./dir-ops.ts";
+import {createFileOps, type FileOps} from "./file-ops.ts";
+import {createLinkOps, type LinkOps} from "./link-ops.ts";
+import {createRemoveOps, type RemoveOps} from "./remove-ops.ts";
+import {createRenameOps, type RenameOps} from "./rename-ops.ts";
+import {createStatOps, type StatOps} from "./stat-ops.ts";
+import {createStreamOps, type StreamOps} from "./stream-ops.ts";
+import {S_IFLNK} from "../constants.ts";
+import {assertFSError} from "../error.ts";
+
+describe("links", () => {
+    let core: FSCore;
+    let copy_ops: CopyOps;
+    let dir_ops: DirOps;
+    let file_ops: FileOps;
+    let link_ops: LinkOps;
+    let remove_ops: RemoveOps;
+    let rename_ops: RenameOps;
+    let stat_ops: StatOps;
+    let stream_ops: StreamOps;
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-links");
+        await core.reset();
+        copy_ops = createCopyOps(core);
+        dir_ops = createDirOps(core);
+        file_ops = createFileOps(core);
+        link_ops = createLinkOps(core);
+        remove_ops = createRemoveOps(core);
+        rename_ops = createRenameOps(core);
+        stat_ops = createStatOps(core);
+        stream_ops = createStreamOps(core);
+
+        await file_ops.writeFile("/data/file.txt", "hello");
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    describe("link", () => {
+        it("should give a file a second name that shares its content", async () => {
+            await link_ops.link("/data/file.txt", "/alias.txt");
+
+            assert.strictEqual(await file_ops.readFile("/alias.txt", "utf-8"), "hello");
+
+            const [stats, alias_stats] = await Promise.all([stat_ops.stat("/data/file.txt"), stat_ops.stat("/alias.txt")]);
+            assert.strictEqual(alias_stats.ino, stats.ino);
+            assert.strictEqual(stats.nlink, 2);
+            assert.strictEqual(alias_stats.nlink, 2);
+        });
+
+        it("should show writes through either name through both", async () => {
+            await link_ops.link("/data/file.txt", "/alias.txt");
+
+            await file_ops.writeFile("/alias.txt", "changed");
+            assert.strictEqual(await file_ops.readFile("/data/file.txt", "utf-8"), "changed");
+
+            await file_ops.appendFile("/data/file.txt", "!");
+            assert.strictEqual(await file_ops.readFile("/alias.txt", "utf-8"), "changed!");
+            assert.strictEqual((await stat_ops.stat("/alias.txt")).size, 8);
+
+            const writer = stream_ops.createWriteStream("/alias.txt").getWriter();
+            await writer.write("streamed");
+            await writer.close();
+            assert.strictEqual(await file_ops.readFile("/data/file.txt", "utf-8"), "streamed");
+
+            await stat_ops.chmod("/alias.txt", 0o400);
+            assert.strictEqual((await stat_ops.stat("/data/file.txt")).mode & 0o777, 0o400);
+        });
+
+        it("should delete the content only with the last name", async () => {
+            await link_ops.link("/data/file.txt", "/alias.txt");
+
+            await remove_ops.unlink("/data/file.txt");
+            assert.strictEqual(await file_ops.readFile("/alias.txt", "utf-8"), "hello");
+            assert.strictEqual((await stat_ops.stat("/alias.txt")).nlink, 1);
+
+            await remove_ops.unlink("/alias.txt");
+
+            const db = await core.getDB();
+            assert.strictEqual(await db.count(CHUNK_STORE_NAME), 0);
+            assert.strictEqual(await db.count(INODE_STORE_NAME), 0);
+        });
+
+        it("should drop the names removed with a folder", async () => {
+            await link_ops.link("/data/file.txt", "/data/alias.txt");
+            await link_ops.link("/data/file.txt", "/kept.txt");
+
+            await remove_ops.rm("/data/", {recursive: true});
+
+            assert.strictEqual(await file_ops.readFile("/kept.txt", "utf-8"), "hello");
+            assert.strictEqual((await stat_ops.stat("/kept.txt")).nlink, 1);
+
+            await remove_ops.rm("/kept.txt");
+
+            const db = await core.getDB();
+            assert.strictEqual(await db.count(CHUNK_STORE_NAME), 0);
+        });
+
+        it("should keep sharing the content after a folder is renamed", async () => {
+            await link_ops.link("/data/file.txt", "/alias.txt");
+
+            await rename_ops.rename("/data/", "/moved/");
+            await file_ops.writeFile("/alias.txt", "changed");
+
+            assert.strictEqual(await file_ops.readFile("/moved/file.txt", "utf-8"), "changed");
+            assert.strictEqual((await stat_ops.stat("/moved/file.txt")).nlink, 2);
+        });
+
+        it("should leave both names when one is renamed onto the other", async () => {
+            await link_ops.link("/data/file.txt", "/alias.txt");
+
+            await rename_ops.rename("/alias.txt", "/data/file.txt");
+
+            assert.isTrue(await stat_ops.exists("/alias.txt"));
+            assert.strictEqual((await stat_ops.stat("/data/file.txt")).nlink, 2);
+        });
+
+        it("should drop a name replaced by a rename", async () => {
+            await link_ops.link("/data/file.txt", "/alias.txt");
+            await file_ops.writeFile("/other.txt", "other");
+
+            await rename_ops.rename("/other.txt", "/alias.txt");
+
+            assert.strictEqual(await file_ops.readFile("/data/file.txt", "utf-8"), "hello");
+            assert.strictEqual((await stat_ops.stat("/data/file.txt")).nlink, 1);
+        });
+
+        it("should copy a linked file as a file of its own", async () => {
+            await link_ops.link("/data/file.txt", "/alias.txt");
+
+            await copy_ops.copyFile("/alias.txt", "/copy.txt");
+            await file_ops.writeFile("/copy.txt", "copy");
+
+            assert.strictEqual(await file_ops.readFile("/data/file.txt", "utf-8"), "hello");
+            assert.strictEqual((await stat_ops.stat("/copy.txt")).nlink, 1);
+        });
+
+        it("should throw EEXIST if the new name exists", async () => {
+            await file_ops.writeFile("/other.txt", "other");
+
+            await assertRejects(link_ops.link("/data/file.txt", "/other.txt"), 'EEXIST');
+        });
+
+        it("should throw ENOENT for a missing file or parent folder", async () => {
+            await assertRejects(link_ops.link("/missing.txt", "/alias.txt"), 'ENOENT');
+            await assertRejects(link_ops.link("/data/file.txt", "/missing/alias.txt"), 'ENOENT');
+        });
+
+        it("should throw EPERM for a folder", async () => {
+            await link_ops.symlink("/data", "/shortcut");
+
+            await assertRejects(link_ops.link("/shortcut", "/alias"), 'EPERM');
+        });
+    });
+
+    describe("symlink", () => {
+        it("should create a link that reads as its target", async () => {
+            await link_ops.symlink("/data/file.txt", "/link.txt");
+
+            assert.strictEqual(await file_ops.readFile("/link.txt", "utf-8"), "hello");
+        });
+
+        it("should resolve a relative target from the folder of the link", async () => {
+            await dir_ops.mkdir("/other/");
+            await link_ops.symlink("../data/file.txt", "/other/link.txt");
+
+            assert.strictEqual(await file_ops.readFile("/other/link.txt", "utf-8"), "hello");
+        });
+
+        it("should follow links to folders in the middle of a path", async () => {
+            await link_ops.symlink("/data", "/shortcut");
+
+            assert.strictEqual(await file_ops.readFile("/shortcut/file.txt", "utf-8"), "hello");
+            assert.deepEqual(await dir_ops.readdir("/shortcut/"), ["file.txt"]);
+
+            await file_ops.writeFile("/shortcut/new.txt", "new");
+            assert.strictEqual(await file_ops.readFile("/data/new.txt", "utf-8"), "new");
+        });
+
+        it("should follow chains of links", async () => {
+            await link_ops.symlink("/data/file.txt", "/first");
+            await link_ops.symlink("first", "/second");
+
+            assert.strictEqual(await file_ops.readFile("/second", "utf-8"), "hello");
+        });
+
+        it("should write through a link to its target", async () => {
+            await link_ops.symlink("/data/file.txt", "/link.txt");
+
+            await file_ops.writeFile("/link.txt", "changed");
+
+            assert.strictEqual(await file_ops.readFile("/data/file.txt", "utf-8"), "changed");
+            assert.isTrue((await stat_ops.lstat("/link.txt")).isSymbolicLink());
+        });
+
+        it("should create the target of a dangling link on write", async () => {
+            await link_ops.symlink("/data/missing.txt", "/link.txt");
+
+            await assertRejects(file_ops.readFile("/link.txt"), 'ENOENT');
+            await file_ops.writeFile("/link.txt", "created");
+
+            assert.strictEqual(await file_ops.readFile("/data/missing.txt", "utf-8"), "created");
+        });
+
+        it("should throw ELOOP for a cycle", async () => {
+            await link_ops.symlink("/b", "/a");
+            await link_ops.symlink("/a", "/b");
+
+            await assertRejects(file_ops.readFile("/a"), 'ELOOP');
+            await assertRejects(stat_ops.stat("/a/"), 'ELOOP');
+            assert.isFalse(await stat_ops.exists("/a"));
+        });
+
+        it("should throw EEXIST if the path exists, even as a dangling link", async () => {
+            await link_ops.symlink("/missing", "/link");
+
+            await assertRejects(link_ops.symlink("/data/file.txt", "/data/file.txt"), 'EEXIST');
+            await assertRejects(link_ops.symlink("/data/file.txt", "/link"), 'EEXIST');
+            await assertRejects(file_ops.writeFile("/link", "data", {flag: 'wx'}), 'EEXIST');
+            await assertRejects(dir_ops.mkdir("/link/"), 'EEXIST');
+        });
+
+        it("should throw ENOENT if the parent folder does not exist", async () => {
+            await assertRejects(link_ops.symlink("/data/file.txt", "/missing/link"), 'ENOENT');
+        });
+
+        it("should throw EINVAL for an empty target", async () => {
+            await assertRejects(link_ops.symlink("", "/link"), 'EINVAL');
+        });
+    });
+
+    describe("readlink", () => {
+        it("should return the target as given", async () => {
+            await link_ops.symlink("../data/file.txt", "/data/link");
+
+            assert.strictEqual(await link_ops.readlink("/data/link"), "../data/file.txt");
+        });
+
+        it("should throw EINVAL for an entry that is not a link", async () => {
+            await assertRejects(link_ops.readlink("/data/file.txt"), 'EINVAL');
+        });
+
+        it("should throw ENOENT for a missing entry", async () => {
+            await assertRejects(link_ops.readlink("/missing"), 'ENOENT');
+        });
+    });
+
+    describe("realpath", () => {
+        it("should resolve every link in a path", async () => {
+            await link_ops.symlink("/data", "/shortcut");
+            await link_ops.symlink("/shortcut/file.txt", "/link.txt");
+
+            assert.strictEqual(await link_ops.realpath("/link.txt"), "/data/file.txt");
+            assert.strictEqual(await link_ops.realpath("/shortcut"), "/data/");
+            assert.strictEqual(await link_ops.realpath("/shortcut/"), "/data/");
+        });
+
+        it("should throw ENOENT for a dangling link", async () => {
+            await link_ops.symlink("/missing", "/link");
+
+            await assertRejects(link_ops.realpath("/link"), 'ENOENT');
+        });
+    });
+
+    describe("stat and lstat", () => {
+        it("should describe the target with stat and the link with lstat", async () => {
+            await link_ops.symlink("/data/file.txt", "/link.txt");
+
+            const stats = await stat_ops.stat("/link.txt");
+            assert.isTrue(stats.isFile());
+            assert.isFalse(stats.isSymbolicLink());
+            assert.strictEqual(stats.size, 5);
+
+            const link_stats = await stat_ops.lstat("/link.txt");
+            assert.isTrue(link_stats.isSymbolicLink());
+            assert.isFalse(link_stats.isFile());
+            assert.isFalse(link_stats.isDirectory());
+            assert.strictEqual(link_stats.mode & S_IFLNK, S_IFLNK);
+            assert.strictEqual(link_stats.size, "/data/file.txt".length);
+        });
+
+        it("should report links in readdir", async () => {
+            await link_ops.symlink("/data/file.txt", "/data/link.txt");
+
+            const dirents = await dir_ops.readdir("/data/", {withFileTypes: true});
+            const link = dirents.find(({name}) => name === "link.txt")!;
+
+            assert.isTrue(link.isSymbolicLink());
+            assert.isFalse(link.isFile());
+        });
+
+        it("should change the target with chmod", async () => {
+            await link_ops.symlink("/data/file.txt", "/link.txt");
+
+            await stat_ops.chmod("/link.txt", 0o400);
+
+            assert.strictEqual((await stat_ops.stat("/data/file.txt")).mode & 0o777, 0o400);
+        });
+    });
+
+    describe("removing, renaming and copying", () => {
+        it("should remove the link, not its target", async () => {
+            await link_ops.symlink("/data", "/shortcut");
+            await link_ops.symlink("/data/file.txt", "/link.txt");
+
+            await remove_ops.unlink("/link.txt");
+            await remove_ops.rm("/shortcut/", {recursive: true});
+
+            assert.isFalse(await stat_ops.exists("/link.txt"));
+            assert.isFalse(await stat_ops.exists("/shortcut"));
+            assert.strictEqual(await file_ops.readFile("/data/file.txt", "utf-8"), "hello");
+        });
+
+        it("should rename the link, not its target", async () => {
+            await link_ops.symlink("/data/file.txt", "/link.txt");
+
+            await rename_ops.rename("/link.txt", "/moved.txt");
+
+            assert.strictEqual(await link_ops.readlink("/moved.txt"), "/data/file.txt");
+            assert.isTrue(await stat_ops.exists("/data/file.txt"));
+        });
+
+        it("should copy the target with copyFile and the link with cp", async () => {
+            await link_ops.symlink("/data/file.txt", "/data/link.txt");
+
+            await copy_ops.copyFile("/data/link.txt", "/copy.txt");
+            assert.isTrue((await stat_ops.lstat("/copy.txt")).isFile());
+
+            await copy_ops.cp("/data/", "/backup/", {recursive: true});
+            assert.strictEqual(await link_ops.readlink("/backup/link.txt"), "/data/file.txt");
+        });
+    });
+
+    async function assertRejects(promise: Promise<unknown>, code: Parameters<typeof assertFSError>[1]): Promise<void> {
+        try {
+            await promise;
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, code);
+        }
+    }
+});
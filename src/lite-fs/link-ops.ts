@@ -0,0 +1,111 @@
+export type {LinkOps} from "../api/link-ops.ts";
+import type {LinkOps} from "../api/link-ops.ts";
+
+import {FSError} from "../error.ts";
+import {getParentPath, validatePath, type AbsolutePath} from "../path.ts";
+import {
+    allocateIno,
+    checkParentDir,
+    checkParentWritable,
+    createDBSymlinkEntry,
+    fromFolderStoragePath,
+    now,
+    putEntryByPath,
+    resolveLinkPath,
+    resolvePath,
+    toStoragePath,
+    touchParentDir,
+    type FSCore,
+} from "./core/index.ts";
+
+export function createLinkOps(core: FSCore): LinkOps {
+    return {
+        async link(existing_in: string, new_in: string): Promise<void> {
+            const existing_validated = validatePath(existing_in, 'file');
+            const new_validated = validatePath(new_in, 'file');
+
+            const tx = await core.transaction('readwrite');
+
+            const {entry} = await resolvePath(tx, existing_validated, 'link');
+            if(!entry) {
+                throw FSError.ENOENT(existing_validated, 'link');
+            }
+            if(entry.type !== 'file') {
+                throw FSError.EPERM(existing_validated, 'link');
+            }
+
+            const {path, entry: existing} = await resolveLinkPath(tx, new_validated, 'link');
+            if(existing) {
+                throw FSError.EEXIST(new_validated, 'link');
+            }
+
+            await checkParentDir(tx, path, 'link');
+            await checkParentWritable(core, tx, path, 'link');
+
+            await putEntryByPath(tx, path, {
+                ...entry,
+                parent: toStoragePath(getParentPath(path)),
+                nlink: entry.nlink + 1,
+                ctime: now(),
+            });
+            await touchParentDir(tx, path);
+            await core.commit(tx);
+
+            core.emit({eventType: 'rename', filename: path});
+        },
+        async symlink(target: string, in_path: string): Promise<void> {
+            const validated_path = validatePath(in_path, 'file');
+            if(target === '') {
+                throw FSError.EINVAL(validated_path, 'symlink');
+            }
+
+            const tx = await core.transaction('readwrite');
+
+            const {path, entry: existing} = await resolveLinkPath(tx, validated_path, 'symlink');
+            if(existing) {
+                throw FSError.EEXIST(validated_path, 'symlink');
+            }
+
+            await checkParentDir(tx, path, 'symlink');
+            await checkParentWritable(core, tx, path, 'symlink');
+
+            const entry = createDBSymlinkEntry(path, await allocateIno(tx), target);
+            await putEntryByPath(tx, path, entry);
+            await touchParentDir(tx, path);
+            await core.commit(tx);
+
+            core.emit({eventType: 'rename', filename: path});
+        },
+        async readlink(in_path: string): Promise<string> {
+            const path = validatePath(in_path);
+
+            const tx = await core.transaction('readonly');
+            const {entry} = await resolveLinkPath(tx, path, 'readlink');
+            await core.commit(tx);
+
+            if(!entry) {
+                throw FSError.ENOENT(path, 'readlink');
+            }
+            if(entry.type !== 'symlink') {
+                throw FSError.EINVAL(path, 'readlink');
+            }
+
+            return entry.target;
+        },
+        async realpath(in_path: string): Promise<AbsolutePath> {
+            const path = validatePath(in_path);
+
+            const tx = await core.transaction('readonly');
+            const {path: real_path, entry} = await resolvePath(tx, path, 'realpath');
+            await core.commit(tx);
+
+            if(!entry) {
+                throw FSError.ENOENT(path, 'realpath');
+            }
+
+            // The form of the result follows the entry, not the path it was reached by.
+            const key = toStoragePath(real_path);
+            return entry.type === 'folder' ? fromFolderStoragePath(key) : key as AbsolutePath;
+        },
+    };
+}
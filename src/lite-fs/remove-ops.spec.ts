@@ -1,10 +1,11 @@
 import "fake-indexeddb/auto";
 import {assert} from "chai";
-import {createFSCore, type FSCore} from "./core/index.ts";
+import {CHUNK_STORE_NAME, createFSCore, type FSCore} from "./core/index.ts";
 import {createDirOps, type DirOps} from "./dir-ops.ts";
 import {createFileOps, type FileOps} from "./file-ops.ts";
 import {createStatOps, type StatOps} from "./stat-ops.ts";
 import {createRemoveOps, type RemoveOps} from "./remove-ops.ts";
+import {countRequests} from "./spec-helper.spec.ts";
 import {assertFSError} from "../error.ts";
 
 describe("unlink", () => {
@@ -59,6 +60,32 @@ describe("unlink", () => {
             assertFSError(e, 'ENOENT');
         }
     });
+
+    it("should throw EPERM for a read-only file", async () => {
+        await file_ops.writeFile("/template.txt", "template");
+        await stat_ops.chmod("/template.txt", 0o444);
+
+        try {
+            await remove_ops.unlink("/template.txt");
+            assert.fail("Expected error");
+        } catch (e) {
+            assertFSError(e, 'EPERM');
+        }
+
+        assert.strictEqual(await file_ops.readFile("/template.txt", "utf-8"), "template");
+    });
+
+    it("should throw EACCES when the folder is read-only", async () => {
+        await file_ops.writeFile("/templates/a.txt", "a");
+        await stat_ops.chmod("/templates/", 0o555);
+
+        try {
+            await remove_ops.unlink("/templates/a.txt");
+            assert.fail("Expected error");
+        } catch (e) {
+            assertFSError(e, 'EACCES');
+        }
+    });
 });
 
 describe("rm", () => {
@@ -131,8 +158,62 @@ describe("rm", () => {
         }
     });
 
+    it("should delete the content of every removed file", async () => {
+        await file_ops.writeFile("/parent/a.txt", "a");
+        await file_ops.writeFile("/parent/child/b.txt", "b");
+        await file_ops.writeFile("/kept.txt", "kept");
+
+        await remove_ops.rm("/parent/", {recursive: true});
+
+        const db = await core.getDB();
+        assert.strictEqual(await db.count(CHUNK_STORE_NAME), 1);
+    });
+
+    it("should remove nothing when the folder holds a read-only entry", async () => {
+        await file_ops.writeFile("/parent/a.txt", "a");
+        await file_ops.writeFile("/parent/child/template.txt", "template");
+        await stat_ops.chmod("/parent/child/template.txt", 0o444);
+
+        try {
+            await remove_ops.rm("/parent/", {recursive: true});
+            assert.fail("Expected error");
+        } catch (e) {
+            assertFSError(e, 'EPERM');
+        }
+
+        assert.strictEqual(await file_ops.readFile("/parent/a.txt", "utf-8"), "a");
+        assert.strictEqual(await file_ops.readFile("/parent/child/template.txt", "utf-8"), "template");
+    });
+
+    it("should throw EACCES when the parent folder is read-only", async () => {
+        await dir_ops.mkdir("/templates/empty/", {recursive: true});
+        await stat_ops.chmod("/templates/", 0o555);
+
+        try {
+            await remove_ops.rm("/templates/empty/");
+            assert.fail("Expected error");
+        } catch (e) {
+            assertFSError(e, 'EACCES');
+        }
+    });
+
     it("should not throw when force is true and path doesn't exist", async () => {
         await remove_ops.rm("/nothing-here", {force: true});
         await remove_ops.rm("/a/b/c", {force: true});
     });
+
+    it("should remove a large folder with fewer than two requests per entry", async () => {
+        for(let i = 0; i < 4; ++i) {
+            for(let j = 0; j < 25; ++j) {
+                await file_ops.writeFile(`/big/${i}/${j}.txt`, "x");
+            }
+        }
+
+        const request_count = await countRequests(() => remove_ops.rm("/big/", {recursive: true}));
+
+        // 105 entries; reading the subtree level by level and deleting it key by key took over 300 requests.
+        assert.isBelow(request_count, 2 * 105);
+        assert.isFalse(await stat_ops.exists("/big/"));
+        assert.isTrue(await stat_ops.exists("/"));
+    });
 });
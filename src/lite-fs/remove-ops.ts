@@ -2,134 +2,141 @@ export type {RemoveOps} from "../api/remove-ops.ts";
 import type {RemoveOps, RmOptions} from "../api/remove-ops.ts";
 
 import {FSError} from "../error.ts";
-import {isFolderPath, validatePath} from "../path.ts";
-import {STORE_NAME, toStoragePath, type FSCore, type DBEntry, INDEX_BY_PARENT, type StoragePath} from "./core/index.ts";
+import {isFolderPath, validatePath, type AbsolutePath} from "../path.ts";
+import {
+    checkParentWritable,
+    checkWritable,
+    fromFolderStoragePath,
+    INDEX_BY_PARENT,
+    readInodes,
+    readSubtree,
+    releaseInode,
+    releaseInodes,
+    resolveLinkPath,
+    STORE_NAME,
+    subtreeRange,
+    toStoragePath,
+    touchParentDir,
+    type DBFileEntry,
+    type DBSymlinkEntry,
+    type FSCore,
+    type FSWriteTransaction,
+} from "./core/index.ts";
 
 export function createRemoveOps(core: FSCore): RemoveOps {
-    return {
-        async unlink(in_path: string): Promise<void> {
-            const path = validatePath(in_path, "file");
+    /** Removes a file, or a link itself, within `tx`. */
+    async function removeEntry(tx: FSWriteTransaction, path: AbsolutePath, entry: DBFileEntry | DBSymlinkEntry, syscall: string): Promise<void> {
+        checkWritable(core, entry, path, syscall, 'EPERM');
+        await checkParentWritable(core, tx, path, syscall);
+
+        await tx.objectStore(STORE_NAME).delete(toStoragePath(path));
+        if(entry.type === 'file') {
+            await releaseInode(tx, entry);
+        }
+        await touchParentDir(tx, path);
+        await core.commit(tx);
 
-            const db = await core.getDB();
-            const key = toStoragePath(path);
+        core.emit({eventType: 'rename', filename: path});
+    }
 
-            const tx = db.transaction(STORE_NAME, "readwrite");
+    return {
+        async unlink(in_path: string): Promise<void> {
+            const tx = await core.transaction('readwrite');
 
-            const entry = (await tx.store.get(key)) as DBEntry | undefined;
+            const {path, entry} = await resolveLinkPath(tx, validatePath(in_path, "file"), "unlink");
 
             if(entry == null) {
-                tx.abort();
                 throw FSError.ENOENT(path, "unlink");
             }
 
-            if(entry.type !== "file") {
-                tx.abort();
+            if(entry.type === "folder") {
                 throw FSError.EISDIR(path, "unlink");
             }
 
-            await tx.store.delete(key);
-            await tx.done;
-
-            core.emit({eventType: 'rename', filename: path});
+            await removeEntry(tx, path, entry, "unlink");
         },
         async rm(in_path: string, options?: RmOptions): Promise<void> {
-            const path = validatePath(in_path);
+            const validated_path = validatePath(in_path);
 
-            if(path === "/") {
-                throw FSError.EINVAL(path, "rm");
+            if(validated_path === "/") {
+                throw FSError.EINVAL(validated_path, "rm");
             }
 
-            const db = await core.getDB();
-
-            if(!isFolderPath(path)) {
-                const file_key = toStoragePath(path);
-
-                const tx = db.transaction(STORE_NAME, "readwrite");
-
-                const entry = (await tx.store.get(file_key)) as DBEntry | undefined;
+            const tx = await core.transaction('readwrite');
+            const store = tx.objectStore(STORE_NAME);
+            const index = store.index(INDEX_BY_PARENT);
 
-                if(entry == null) {
-                    if(options?.force) {
-                        await tx.done;
-                        return;
-                    }
+            // A link is removed itself, even when named as a folder; what it leads to is left alone.
+            const {path, entry} = await resolveLinkPath(tx, validated_path, "rm");
 
-                    tx.abort();
-                    throw FSError.ENOENT(path, "rm");
+            if(entry == null) {
+                if(options?.force) {
+                    await core.commit(tx);
+                    return;
                 }
+                throw FSError.ENOENT(path, "rm");
+            }
 
+            if(entry.type === "symlink") {
+                await removeEntry(tx, toStoragePath(path), entry, "rm");
+                return;
+            }
+
+            if(!isFolderPath(path)) {
                 if(entry.type !== "file") {
-                    tx.abort();
                     throw FSError.EISDIR(path, "rm");
                 }
 
-                await tx.store.delete(file_key);
-                await tx.done;
-
-                core.emit({eventType: 'rename', filename: path});
+                await removeEntry(tx, path, entry, "rm");
                 return;
             }
 
-            const dir_key = toStoragePath(path);
-
-            const tx = db.transaction(STORE_NAME, "readwrite");
-            const index = tx.store.index(INDEX_BY_PARENT);
-
-            const entry = (await tx.store.get(dir_key)) as DBEntry | undefined;
-
-            if(entry == null) {
-                if(options?.force) {
-                    await tx.done;
-                    return;
-                }
-                tx.abort();
-                throw FSError.ENOENT(path, "rm");
-            }
-
             if(entry.type !== "folder") {
-                tx.abort();
                 throw FSError.ENOTDIR(path, "rm");
             }
 
+            const dir_key = toStoragePath(path);
+
+            checkWritable(core, entry, path, "rm", 'EPERM');
+            await checkParentWritable(core, tx, path, "rm");
+
             if(!options?.recursive) {
                 const first_child = await index.openCursor(dir_key);
                 if(first_child) {
-                    tx.abort();
                     throw FSError.ENOTEMPTY(path, "rm");
                 }
 
-                await tx.store.delete(dir_key);
-                await tx.done;
+                await store.delete(dir_key);
+                await touchParentDir(tx, path);
+                await core.commit(tx);
 
                 core.emit({eventType: 'rename', filename: path});
                 return;
             }
 
-            const stack: StoragePath[] = [dir_key];
-            const keys_to_delete: string[] = [dir_key];
+            const descendants = await readSubtree(tx, dir_key);
 
-            while(stack.length > 0) {
-                const parent = stack.pop()!;
+            // A file may have several names in the subtree; each one drops a link.
+            const names = new Map<number, number>();
+            for(const {entry: child} of descendants) {
+                if(child.type === "file") names.set(child.ino, (names.get(child.ino) ?? 0) + 1);
+            }
+            const inode_set = await readInodes(tx, names.keys());
 
-                let cursor = await index.openCursor(parent);
-                while(cursor) {
-                    const key = cursor.primaryKey as string;
-                    const child = cursor.value as DBEntry;
+            // Nothing is deleted unless every entry in the subtree may be.
+            for(const {key, entry: child} of descendants) {
+                const mode = child.type === "file" ? inode_set.inodes.get(child.ino)?.mode ?? 0 : child.mode;
+                checkWritable(core, {mode}, child.type === "folder" ? fromFolderStoragePath(key) : key, "rm", 'EPERM');
+            }
 
-                    keys_to_delete.push(key);
-                    if(child.type === "folder") {
-                        stack.push(key as StoragePath);
-                    }
+            await store.delete(subtreeRange(dir_key));
+            await store.delete(dir_key);
 
-                    cursor = await cursor.continue();
-                }
-            }
+            await releaseInodes(tx, names, inode_set);
 
-            for(const key_to_delete of keys_to_delete) {
-                await tx.store.delete(key_to_delete);
-            }
+            await touchParentDir(tx, path);
 
-            await tx.done;
+            await core.commit(tx);
 
             // Emit watch event for top-level path only.
             core.emit({eventType: 'rename', filename: path});
@@ -1,11 +1,12 @@
 import "fake-indexeddb/auto";
 import {assert} from "chai";
 
-import {createFSCore, type FSCore} from "./core/index.ts";
+import {CHUNK_STORE_NAME, createFSCore, type FSCore} from "./core/index.ts";
 import {createDirOps, type DirOps} from "./dir-ops.ts";
 import {createFileOps, type FileOps} from "./file-ops.ts";
 import {createRenameOps, type RenameOps} from "./rename-ops.ts";
 import {createStatOps, type StatOps} from "./stat-ops.ts";
+import {countRequests} from "./spec-helper.spec.ts";
 import {assertFSError} from "../error.ts";
 
 describe("rename", () => {
@@ -100,6 +101,9 @@ describe("rename", () => {
 
             assert.equal(await file_ops.readFile("/to.txt", "utf-8"), "from");
 
+            const db = await core.getDB();
+            assert.strictEqual(await db.count(CHUNK_STORE_NAME), 1);
+
             try {
                 await file_ops.readFile("/from.txt", "utf-8");
                 assert.fail("Expected ENOENT");
@@ -108,6 +112,17 @@ describe("rename", () => {
             }
         });
 
+        it("should keep the modification time of the moved file, and only change its ctime", async () => {
+            await file_ops.writeFile("/restored.txt", "x");
+            await stat_ops.utimes("/restored.txt", new Date(1000), new Date(2000));
+
+            await rename_ops.rename("/restored.txt", "/moved.txt");
+
+            const stats = await stat_ops.stat("/moved.txt");
+            assert.strictEqual(stats.mtimeMs, 2000);
+            assert.isAbove(stats.ctimeMs, 2000);
+        });
+
         it("should throw EISDIR when renaming a file to a folder path", async () => {
             await file_ops.writeFile("/file.txt", "x");
             await dir_ops.mkdir("/dir/");
@@ -177,6 +192,19 @@ describe("rename", () => {
             }
         });
 
+        it("should not rewrite content chunks of moved files", async () => {
+            await file_ops.writeFile("/parent/a.txt", "a");
+            await file_ops.writeFile("/parent/child/b.txt", "b");
+
+            const db = await core.getDB();
+            const keys_before = await db.getAllKeys(CHUNK_STORE_NAME);
+
+            await rename_ops.rename("/parent/", "/moved/");
+
+            assert.deepEqual(await db.getAllKeys(CHUNK_STORE_NAME), keys_before);
+            assert.equal(await file_ops.readFile("/moved/child/b.txt", "utf-8"), "b");
+        });
+
         it("should throw ENOENT if the source directory doesn't exist", async () => {
             try {
                 await rename_ops.rename("/ghost/", "/alive/");
@@ -207,5 +235,66 @@ describe("rename", () => {
                 assertFSError(e, 'EINVAL');
             }
         });
+
+        it("should move a large folder with fewer than two requests per entry", async () => {
+            for(let i = 0; i < 4; ++i) {
+                for(let j = 0; j < 25; ++j) {
+                    await file_ops.writeFile(`/big/${i}/${j}.txt`, "x");
+                }
+            }
+
+            const request_count = await countRequests(() => rename_ops.rename("/big/", "/moved/"));
+
+            // 105 entries; reading the subtree level by level and moving it key by key took over 300 requests.
+            assert.isBelow(request_count, 2 * 105);
+            assert.strictEqual(await file_ops.readFile("/moved/3/24.txt", "utf-8"), "x");
+            assert.isFalse(await stat_ops.exists("/big/0/0.txt"));
+        });
+    });
+
+    context("permissions", () => {
+        it("should throw EPERM for a read-only file", async () => {
+            await file_ops.writeFile("/template.txt", "template");
+            await stat_ops.chmod("/template.txt", 0o444);
+
+            try {
+                await rename_ops.rename("/template.txt", "/renamed.txt");
+                assert.fail("Expected EPERM");
+            } catch (e) {
+                assertFSError(e, 'EPERM');
+            }
+
+            assert.strictEqual(await file_ops.readFile("/template.txt", "utf-8"), "template");
+        });
+
+        it("should throw EPERM when replacing a read-only file", async () => {
+            await file_ops.writeFile("/template.txt", "template");
+            await file_ops.writeFile("/draft.txt", "draft");
+            await stat_ops.chmod("/template.txt", 0o444);
+
+            try {
+                await rename_ops.rename("/draft.txt", "/template.txt");
+                assert.fail("Expected EPERM");
+            } catch (e) {
+                assertFSError(e, 'EPERM');
+            }
+
+            assert.strictEqual(await file_ops.readFile("/template.txt", "utf-8"), "template");
+        });
+
+        it("should throw EACCES when moving into or out of a read-only folder", async () => {
+            await file_ops.writeFile("/templates/a.txt", "a");
+            await file_ops.writeFile("/b.txt", "b");
+            await stat_ops.chmod("/templates/", 0o555);
+
+            for(const [old_path, new_path] of [["/templates/a.txt", "/a.txt"], ["/b.txt", "/templates/b.txt"]] as const) {
+                try {
+                    await rename_ops.rename(old_path, new_path);
+                    assert.fail("Expected EACCES");
+                } catch (e) {
+                    assertFSError(e, 'EACCES');
+                }
+            }
+        });
     });
 });
@@ -2,13 +2,21 @@ export type {RenameOps} from "../api/rename-ops.ts";
 import type {RenameOps} from "../api/rename-ops.ts";
 
 import {FSError} from "../error.ts";
-import {getBaseName, getParentPath, isFolderPath, validatePath, type AbsolutePath} from "../path.ts";
+import {getParentPath, isFolderPath, validatePath, type AbsolutePath} from "../path.ts";
 import {
-    fromFolderStoragePath,
+    checkParentWritable,
+    checkWritable,
+    getEntry,
     INDEX_BY_PARENT,
     now,
+    putEntry,
+    readSubtree,
+    releaseInode,
+    resolveLinkPath,
     STORE_NAME,
+    subtreeRange,
     toStoragePath,
+    touchParentDir,
     type DBEntry,
     type FSCore,
     type StoragePath,
@@ -17,100 +25,103 @@ import {
 export function createRenameOps(core: FSCore): RenameOps {
     return {
         async rename(old_in: string, new_in: string): Promise<void> {
-            const old_path = validatePath(old_in);
-            const new_path = validatePath(new_in);
+            const old_validated = validatePath(old_in);
+            const new_validated = validatePath(new_in);
 
-            if(old_path === new_path) return;
+            if(old_validated === new_validated) return;
 
-            if(old_path === '/') throw FSError.EINVAL(old_path, 'rename');
-            if(new_path === '/') throw FSError.EINVAL(new_path, 'rename');
+            if(old_validated === '/') throw FSError.EINVAL(old_validated, 'rename');
+            if(new_validated === '/') throw FSError.EINVAL(new_validated, 'rename');
 
-            if(!isFolderPath(old_path) && isFolderPath(new_path)) throw FSError.EISDIR(new_path, 'rename');
-            if(isFolderPath(old_path) && !isFolderPath(new_path)) throw FSError.ENOTDIR(new_path, 'rename');
+            if(!isFolderPath(old_validated) && isFolderPath(new_validated)) throw FSError.EISDIR(new_validated, 'rename');
+            if(isFolderPath(old_validated) && !isFolderPath(new_validated)) throw FSError.ENOTDIR(new_validated, 'rename');
 
             // Prevent moving a directory into itself
-            const old_prefix = old_path.endsWith('/') ? old_path : `${old_path}/`;
-            if(new_path.startsWith(old_prefix)) {
-                throw FSError.EINVAL(new_path, 'rename');
+            const isInside = (path: AbsolutePath, folder: AbsolutePath) => path.startsWith(folder.endsWith('/') ? folder : `${folder}/`);
+            if(isInside(new_validated, old_validated)) {
+                throw FSError.EINVAL(new_validated, 'rename');
             }
 
-            const db = await core.getDB();
-            const tx = db.transaction(STORE_NAME, 'readwrite');
+            const tx = await core.transaction('readwrite');
             const store = tx.objectStore(STORE_NAME);
 
-            // 1. Verify source exists
-            const old_key: StoragePath = toStoragePath(old_path);
-            const new_key: StoragePath = toStoragePath(new_path);
-            const source_entry = (await tx.store.get(old_key)) as DBEntry | undefined;
+            // 1. Verify source exists; links in the folders of either path are followed, but a link being moved or replaced is not.
+            const {path: old_path, entry: source_entry} = await resolveLinkPath(tx, old_validated, 'rename');
+            const {path: new_path, entry: existing_target} = await resolveLinkPath(tx, new_validated, 'rename');
             if(source_entry == null) {
-                throw FSError.ENOENT(old_path, 'rename');
+                throw FSError.ENOENT(old_validated, 'rename');
+            }
+
+            if(old_path === new_path) {
+                await core.commit(tx);
+                return;
+            }
+            if(isInside(new_path, old_path)) {
+                throw FSError.EINVAL(new_validated, 'rename');
             }
 
+            const old_key: StoragePath = toStoragePath(old_path);
+            const new_key: StoragePath = toStoragePath(new_path);
+            checkWritable(core, source_entry, old_path, 'rename', 'EPERM');
+
             // 2. Verify target parent exists
             const target_parent_path = getParentPath(new_path);
             const target_parent_key: StoragePath = toStoragePath(target_parent_path);
 
             if(target_parent_path !== '/') {
-                const target_parent = (await tx.store.get(target_parent_key)) as DBEntry | undefined;
+                const target_parent = await getEntry(tx, target_parent_key);
                 if(!target_parent) throw FSError.ENOENT(target_parent_path, 'rename');
                 if(target_parent.type !== 'folder') throw FSError.ENOTDIR(target_parent_path, 'rename');
             }
 
-            // 3. Check if target exists and handle type mismatch
-            const existing_target = (await tx.store.get(new_key)) as DBEntry | undefined;
+            await checkParentWritable(core, tx, old_path, 'rename');
+            await checkParentWritable(core, tx, new_path, 'rename');
+
+            // Two names of the same file are left as they are, as in POSIX.
+            if(source_entry.type === 'file' && existing_target?.type === 'file' && source_entry.ino === existing_target.ino) {
+                await core.commit(tx);
+                return;
+            }
+
+            // 3. Check if target exists and handle type mismatch; files and links may replace each other
             if(existing_target) {
-                if(source_entry.type === 'file' && existing_target.type === 'folder') throw FSError.EISDIR(new_path, 'rename');
-                if(source_entry.type === 'folder' && existing_target.type === 'file') throw FSError.ENOTDIR(new_path, 'rename');
-                if(source_entry.type !== existing_target.type) throw FSError.EINVAL(new_path, 'rename');
+                const is_source_folder = source_entry.type === 'folder';
+                const is_target_folder = existing_target.type === 'folder';
+                if(!is_source_folder && is_target_folder) throw FSError.EISDIR(new_path, 'rename');
+                if(is_source_folder && !is_target_folder) throw FSError.ENOTDIR(new_path, 'rename');
+                checkWritable(core, existing_target, new_path, 'rename', 'EPERM');
 
                 // If folder, it must be empty to be overwritten
                 if(existing_target.type === 'folder') {
-                    const index = tx.store.index(INDEX_BY_PARENT);
+                    const index = store.index(INDEX_BY_PARENT);
                     const has_children = await index.getKey(new_key);
                     if(has_children) throw FSError.ENOTEMPTY(new_path, 'rename');
+                } else if(existing_target.type === 'file') {
+                    await releaseInode(tx, existing_target);
                 }
             }
 
-            // 4. Collect all items to move (if it's a directory)
-            const items_to_move: Array<{old_key: StoragePath; new_key: StoragePath; entry: DBEntry}> = [{
-                old_key, new_key,
-                entry: {...source_entry, parent: target_parent_key, mtime: now()},
-            }];
-
-            const index = tx.store.index(INDEX_BY_PARENT);
-            for(let i = 0; i < items_to_move.length; ++i) {
-                const {old_key, new_key, entry} = items_to_move[i]!;
-                if(entry.type !== 'folder') continue;
-
-                let cursor = await index.openCursor(old_key);
-                while(cursor) {
-                    const child_old_key = cursor.primaryKey.toString() as StoragePath;
-                    const child_entry = cursor.value as DBEntry;
-                    const child_name = getBaseName(child_old_key + (child_entry.type === 'folder' ? '/' : ''));
-
-                    const child_new_path: AbsolutePath = `${fromFolderStoragePath(new_key)}${child_name}`;
+            // 4. Move the entry, along with its subtree if it is a folder
+            const moved_entry: DBEntry = {...source_entry, parent: target_parent_key, ctime: now()};
+            const descendants = source_entry.type === 'folder' ? await readSubtree(tx, old_key) : [];
 
-                    items_to_move.push({
-                        old_key: child_old_key,
-                        new_key: toStoragePath(child_new_path),
-                        entry: {...child_entry, parent: new_key},
-                    });
-
-                    cursor = await cursor.continue();
-                }
+            if(descendants.length > 0) {
+                await store.delete(subtreeRange(old_key));
             }
+            await store.delete(old_key);
 
-            // 5. Execute move: Delete old, Put new
+            // Descendants keep their paths relative to the moved folder, so only the prefix changes.
+            const toNewKey = (key: StoragePath): StoragePath => `${new_key}${key.slice(old_key.length)}` as StoragePath;
 
-            for(const item of items_to_move) {
-                await store.delete(item.old_key);
-            }
+            await Promise.all([
+                putEntry(tx, new_key, moved_entry),
+                ...descendants.map(({key, entry}) => store.put({...entry, parent: toNewKey(entry.parent)}, toNewKey(key))),
+            ]);
 
-            for(const item of items_to_move) {
-                await store.put(item.entry, item.new_key);
-            }
+            await touchParentDir(tx, old_path);
+            await touchParentDir(tx, new_path);
 
-            await tx.done;
+            await core.commit(tx);
 
             core.emit({eventType: 'rename', filename: old_path});
             core.emit({eventType: 'rename', filename: new_path});
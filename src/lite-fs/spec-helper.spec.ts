@@ -0,0 +1,21 @@
+// Helpers shared by the specs; the `.spec` suffix keeps this file out of the published package.
+
+/** Counts the IndexedDB requests made by `fn`; each one is awaited through a `success` listener. */
+export async function countRequests(fn: () => Promise<void>): Promise<number> {
+    const proto = IDBRequest.prototype;
+    const addEventListener = proto.addEventListener;
+
+    let count = 0;
+    proto.addEventListener = function(this: IDBRequest, ...args: Parameters<IDBRequest['addEventListener']>) {
+        if(args[0] === 'success') ++count;
+        addEventListener.apply(this, args);
+    };
+
+    try {
+        await fn();
+    } finally {
+        proto.addEventListener = addEventListener;
+    }
+
+    return count;
+}
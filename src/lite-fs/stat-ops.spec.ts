@@ -3,7 +3,10 @@ import {assert} from "chai";
 import {createFSCore, type FSCore} from "./core/index.ts";
 import {createDirOps, type DirOps} from "./dir-ops.ts";
 import {createFileOps, type FileOps} from "./file-ops.ts";
+import {createRemoveOps} from "./remove-ops.ts";
+import {createRenameOps} from "./rename-ops.ts";
 import {createStatOps, type StatOps} from "./stat-ops.ts";
+import {F_OK, R_OK, S_IFDIR, S_IFMT, S_IFREG, W_OK} from "../constants.ts";
 import {assertFSError} from "../error.ts";
 
 describe("stat", () => {
@@ -119,6 +122,237 @@ describe("stat", () => {
         });
     });
 
+    context("size", () => {
+        it("should return the content length of a file", async () => {
+            await file_ops.writeFile("/test.txt", "héllo");
+
+            assert.strictEqual((await stat_ops.stat("/test.txt")).size, 6);
+        });
+
+        it("should return 0 for folders", async () => {
+            await dir_ops.mkdir("/dir/");
+
+            assert.strictEqual((await stat_ops.stat("/dir/")).size, 0);
+            assert.strictEqual((await stat_ops.stat("/")).size, 0);
+        });
+    });
+
+    context("ino", () => {
+        it("should be distinct for every entry", async () => {
+            await file_ops.writeFile("/dir/a.txt", "a");
+            await file_ops.writeFile("/dir/b.txt", "b");
+
+            const inos = await Promise.all(["/dir/", "/dir/a.txt", "/dir/b.txt"].map(async (path) => (await stat_ops.stat(path)).ino));
+            assert.strictEqual(new Set(inos).size, 3);
+        });
+
+        it("should be kept across writes and renames", async () => {
+            await file_ops.writeFile("/a.txt", "a");
+            const {ino} = await stat_ops.stat("/a.txt");
+
+            await file_ops.writeFile("/a.txt", "changed");
+            await file_ops.appendFile("/a.txt", "!");
+            await createRenameOps(core).rename("/a.txt", "/b.txt");
+
+            assert.strictEqual((await stat_ops.stat("/b.txt")).ino, ino);
+        });
+    });
+
+    context("timestamps", () => {
+        const wait = () => new Promise((resolve) => {
+            setTimeout(resolve, 10);
+        });
+
+        it("should set every timestamp on creation", async () => {
+            await file_ops.writeFile("/test.txt", "content");
+
+            const stats = await stat_ops.stat("/test.txt");
+            assert.strictEqual(stats.birthtimeMs, stats.mtimeMs);
+            assert.strictEqual(stats.ctimeMs, stats.mtimeMs);
+            assert.strictEqual(stats.atimeMs, stats.mtimeMs);
+            assert.strictEqual(stats.birthtime.getTime(), stats.birthtimeMs);
+        });
+
+        it("should keep birthtime when the file is overwritten", async () => {
+            await file_ops.writeFile("/test.txt", "original");
+            const before = await stat_ops.stat("/test.txt");
+
+            await wait();
+            await file_ops.writeFile("/test.txt", "updated");
+            const after = await stat_ops.stat("/test.txt");
+
+            assert.strictEqual(after.birthtimeMs, before.birthtimeMs);
+            assert.isAbove(after.mtimeMs, before.mtimeMs);
+            assert.strictEqual(after.ctimeMs, after.mtimeMs);
+        });
+
+        it("should update ctime on rename", async () => {
+            await file_ops.writeFile("/a.txt", "a");
+            const before = await stat_ops.stat("/a.txt");
+
+            await wait();
+            await createRenameOps(core).rename("/a.txt", "/b.txt");
+
+            assert.isAbove((await stat_ops.stat("/b.txt")).ctimeMs, before.ctimeMs);
+        });
+
+        it("should not update atime on reads by default", async () => {
+            await file_ops.writeFile("/test.txt", "content");
+            const before = await stat_ops.stat("/test.txt");
+
+            await wait();
+            await file_ops.readFile("/test.txt");
+
+            assert.strictEqual((await stat_ops.stat("/test.txt")).atimeMs, before.atimeMs);
+        });
+
+        it("should update atime on reads with trackAtime", async () => {
+            const tracking_core = createFSCore("test-fs-stat", {trackAtime: true});
+            const tracking_file_ops = createFileOps(tracking_core);
+
+            await tracking_file_ops.writeFile("/test.txt", "content");
+            const before = await stat_ops.stat("/test.txt");
+
+            await wait();
+            await tracking_file_ops.readFile("/test.txt");
+            const after = await stat_ops.stat("/test.txt");
+
+            assert.isAbove(after.atimeMs, before.atimeMs);
+            assert.strictEqual(after.mtimeMs, before.mtimeMs);
+
+            (await tracking_core.getDB()).close();
+        });
+
+        it("should give the root a stable birthtime", async () => {
+            const before = await stat_ops.stat("/");
+
+            await wait();
+            await file_ops.writeFile("/test.txt", "content");
+            const after = await stat_ops.stat("/");
+
+            assert.strictEqual(after.birthtimeMs, before.birthtimeMs);
+            assert.isAbove(after.mtimeMs, before.mtimeMs);
+        });
+    });
+
+    context("parent folder timestamps", () => {
+        const wait = () => new Promise((resolve) => {
+            setTimeout(resolve, 10);
+        });
+
+        const getTimes = async (path: string) => {
+            const stats = await stat_ops.stat(path);
+            return {mtimeMs: stats.mtimeMs, ctimeMs: stats.ctimeMs};
+        };
+
+        beforeEach(async () => {
+            await dir_ops.mkdir("/dir/");
+            await file_ops.writeFile("/dir/existing.txt", "existing");
+        });
+
+        it("should update the parent when a file is created", async () => {
+            const before = await getTimes("/dir/");
+
+            await wait();
+            await file_ops.writeFile("/dir/new.txt", "new");
+            const after = await getTimes("/dir/");
+
+            assert.isAbove(after.mtimeMs, before.mtimeMs);
+            assert.strictEqual(after.ctimeMs, after.mtimeMs);
+        });
+
+        it("should not update the parent when a file is overwritten", async () => {
+            const before = await getTimes("/dir/");
+
+            await wait();
+            await file_ops.writeFile("/dir/existing.txt", "updated");
+
+            assert.deepEqual(await getTimes("/dir/"), before);
+        });
+
+        it("should update the parent when a folder is created", async () => {
+            const before = await getTimes("/dir/");
+
+            await wait();
+            await dir_ops.mkdir("/dir/sub/");
+
+            assert.isAbove((await getTimes("/dir/")).mtimeMs, before.mtimeMs);
+        });
+
+        it("should update the parent when an entry is removed", async () => {
+            const before = await getTimes("/dir/");
+
+            await wait();
+            await createRemoveOps(core).unlink("/dir/existing.txt");
+
+            assert.isAbove((await getTimes("/dir/")).mtimeMs, before.mtimeMs);
+        });
+
+        it("should update both parents on rename", async () => {
+            await dir_ops.mkdir("/other/");
+            const before_src = await getTimes("/dir/");
+            const before_dest = await getTimes("/other/");
+
+            await wait();
+            await createRenameOps(core).rename("/dir/existing.txt", "/other/moved.txt");
+
+            assert.isAbove((await getTimes("/dir/")).mtimeMs, before_src.mtimeMs);
+            assert.isAbove((await getTimes("/other/")).mtimeMs, before_dest.mtimeMs);
+        });
+    });
+
+    context("utimes", () => {
+        it("should set atime and mtime from Dates", async () => {
+            await file_ops.writeFile("/test.txt", "content");
+
+            await stat_ops.utimes("/test.txt", new Date("2020-01-01T00:00:00Z"), new Date("2021-01-01T00:00:00Z"));
+
+            const stats = await stat_ops.stat("/test.txt");
+            assert.strictEqual(stats.atime.toISOString(), "2020-01-01T00:00:00.000Z");
+            assert.strictEqual(stats.mtime.toISOString(), "2021-01-01T00:00:00.000Z");
+        });
+
+        it("should take numbers as seconds", async () => {
+            await dir_ops.mkdir("/dir/");
+
+            await stat_ops.utimes("/dir/", 1.5, 1_600_000_000);
+
+            const stats = await stat_ops.stat("/dir/");
+            assert.strictEqual(stats.atimeMs, 1500);
+            assert.strictEqual(stats.mtimeMs, 1_600_000_000_000);
+        });
+
+        it("should update ctime and keep birthtime", async () => {
+            await file_ops.writeFile("/test.txt", "content");
+            const before = await stat_ops.stat("/test.txt");
+
+            await stat_ops.utimes("/test.txt", 0, 0);
+
+            const after = await stat_ops.stat("/test.txt");
+            assert.isAtLeast(after.ctimeMs, before.ctimeMs);
+            assert.strictEqual(after.birthtimeMs, before.birthtimeMs);
+        });
+
+        it("should throw ENOENT for a missing entry", async () => {
+            try {
+                await stat_ops.utimes("/missing.txt", 0, 0);
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'ENOENT');
+            }
+        });
+
+        it("should throw EINVAL for an invalid time", async () => {
+            await file_ops.writeFile("/test.txt", "content");
+            try {
+                await stat_ops.utimes("/test.txt", new Date("invalid"), 0);
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EINVAL');
+            }
+        });
+    });
+
     context("error cases", () => {
         it("should throw ENOENT for non-existent file", async () => {
             try {
@@ -197,3 +431,188 @@ describe("stat", () => {
         });
     });
 });
+
+describe("exists", () => {
+    let core: FSCore;
+    let dir_ops: DirOps;
+    let file_ops: FileOps;
+    let stat_ops: StatOps;
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-exists");
+        await core.reset();
+        dir_ops = createDirOps(core);
+        file_ops = createFileOps(core);
+        stat_ops = createStatOps(core);
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    it("should return true for an existing file", async () => {
+        await file_ops.writeFile("/test.txt", "content");
+        assert.isTrue(await stat_ops.exists("/test.txt"));
+    });
+
+    it("should return true for an existing folder and the root", async () => {
+        await dir_ops.mkdir("/folder/");
+        assert.isTrue(await stat_ops.exists("/folder/"));
+        assert.isTrue(await stat_ops.exists("/"));
+    });
+
+    it("should return false for a missing path", async () => {
+        assert.isFalse(await stat_ops.exists("/missing.txt"));
+        assert.isFalse(await stat_ops.exists("/missing/nested/"));
+    });
+
+    it("should throw EINVAL for a non-absolute path", async () => {
+        try {
+            await stat_ops.exists("relative.txt");
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'EINVAL');
+        }
+    });
+});
+
+describe("access", () => {
+    let core: FSCore;
+    let file_ops: FileOps;
+    let stat_ops: StatOps;
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-access");
+        await core.reset();
+        file_ops = createFileOps(core);
+        stat_ops = createStatOps(core);
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    it("should resolve for an existing file with every mode", async () => {
+        await file_ops.writeFile("/test.txt", "content");
+
+        await stat_ops.access("/test.txt");
+        await stat_ops.access("/test.txt", F_OK);
+        await stat_ops.access("/test.txt", R_OK | W_OK);
+    });
+
+    it("should throw ENOENT for a missing path", async () => {
+        try {
+            await stat_ops.access("/missing.txt", R_OK);
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'ENOENT');
+        }
+    });
+
+    it("should throw EINVAL for an unknown mode", async () => {
+        await file_ops.writeFile("/test.txt", "content");
+        try {
+            await stat_ops.access("/test.txt", 8);
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'EINVAL');
+        }
+    });
+
+    it("should throw EACCES when the mode denies the access", async () => {
+        await file_ops.writeFile("/test.txt", "content");
+        await stat_ops.chmod("/test.txt", 0o444);
+
+        await stat_ops.access("/test.txt", R_OK);
+        try {
+            await stat_ops.access("/test.txt", R_OK | W_OK);
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'EACCES');
+        }
+    });
+
+    it("should only check existence when permissions are not enforced", async () => {
+        await file_ops.writeFile("/test.txt", "content");
+        await stat_ops.chmod("/test.txt", 0o000);
+
+        const admin_core = createFSCore("test-fs-access", {enforcePermissions: false});
+        await createStatOps(admin_core).access("/test.txt", R_OK | W_OK);
+        (await admin_core.getDB()).close();
+    });
+});
+
+describe("chmod", () => {
+    let core: FSCore;
+    let dir_ops: DirOps;
+    let file_ops: FileOps;
+    let stat_ops: StatOps;
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-chmod");
+        await core.reset();
+        dir_ops = createDirOps(core);
+        file_ops = createFileOps(core);
+        stat_ops = createStatOps(core);
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    it("should give new entries the default modes", async () => {
+        await file_ops.writeFile("/test.txt", "content");
+        await dir_ops.mkdir("/folder/");
+
+        assert.strictEqual((await stat_ops.stat("/test.txt")).mode, S_IFREG | 0o644);
+        assert.strictEqual((await stat_ops.stat("/folder/")).mode, S_IFDIR | 0o755);
+        assert.strictEqual((await stat_ops.stat("/")).mode, S_IFDIR | 0o755);
+    });
+
+    it("should set the permission bits and update ctime", async () => {
+        await file_ops.writeFile("/test.txt", "content");
+        const before = await stat_ops.stat("/test.txt");
+
+        await new Promise((resolve) => {
+            setTimeout(resolve, 10);
+        });
+        await stat_ops.chmod("/test.txt", 0o400);
+        const after = await stat_ops.stat("/test.txt");
+
+        assert.strictEqual(after.mode & S_IFMT, S_IFREG);
+        assert.strictEqual(after.mode & ~S_IFMT, 0o400);
+        assert.isAbove(after.ctimeMs, before.ctimeMs);
+        assert.strictEqual(after.mtimeMs, before.mtimeMs);
+    });
+
+    it("should allow writes again once write permission is restored", async () => {
+        await file_ops.writeFile("/test.txt", "content");
+        await stat_ops.chmod("/test.txt", 0o444);
+        await stat_ops.chmod("/test.txt", 0o644);
+
+        await file_ops.writeFile("/test.txt", "edited");
+        assert.strictEqual(await file_ops.readFile("/test.txt", "utf-8"), "edited");
+    });
+
+    it("should throw ENOENT for a missing entry", async () => {
+        try {
+            await stat_ops.chmod("/missing.txt", 0o644);
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'ENOENT');
+        }
+    });
+
+    it("should throw EINVAL for an invalid mode", async () => {
+        await file_ops.writeFile("/test.txt", "content");
+
+        for(const mode of [-1, 0o10000, 1.5]) {
+            try {
+                await stat_ops.chmod("/test.txt", mode);
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EINVAL');
+            }
+        }
+    });
+});
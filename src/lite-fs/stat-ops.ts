@@ -1,17 +1,58 @@
 export type {StatOps} from "../api/stat-ops.ts";
-import type {StatOps, Stats} from "../api/stat-ops.ts";
+import type {StatOps, Stats, TimeLike} from "../api/stat-ops.ts";
 
-import {FSError} from "../error.ts";
+import {F_OK, R_OK, S_IFDIR, S_IFLNK, S_IFREG, W_OK} from "../constants.ts";
+import {FSError, isFSError} from "../error.ts";
 import {validatePath} from "../path.ts";
-import {getEntryByPath, type DBEntry, type FSCore} from "./core/index.ts";
+import {
+    MODE_READ,
+    MODE_WRITE,
+    now,
+    putEntry,
+    resolveLinkPath,
+    resolvePath,
+    toDBTimeStamp,
+    toStoragePath,
+    type DBEntry,
+    type FSCore,
+} from "./core/index.ts";
 
-function createStats(entry: DBEntry): Stats {
-    const is_file = entry.type === 'file';
+const ACCESS_MODE_MASK = F_OK | R_OK | W_OK;
+const PERMISSION_MASK = 0o7777;
+
+const FILE_TYPE_BITS: Record<DBEntry['type'], number> = {
+    file: S_IFREG,
+    folder: S_IFDIR,
+    symlink: S_IFLNK,
+};
+
+function getSize(entry: DBEntry): number {
+    switch(entry.type) {
+        case 'file': return entry.size;
+        case 'folder': return 0;
+        case 'symlink': return new TextEncoder().encode(entry.target).byteLength;
+    }
+}
+
+export function createStats(entry: DBEntry): Stats {
+    const type = entry.type;
 
     return {
-        isFile: () => is_file,
-        isDirectory: () => !is_file,
+        isFile: () => type === 'file',
+        isDirectory: () => type === 'folder',
+        isSymbolicLink: () => type === 'symlink',
+        ino: entry.ino,
+        mode: FILE_TYPE_BITS[type] | entry.mode,
+        size: getSize(entry),
+        nlink: entry.type === 'file' ? entry.nlink : 1,
+        atime: new Date(entry.atime),
         mtime: new Date(entry.mtime),
+        ctime: new Date(entry.ctime),
+        birthtime: new Date(entry.birthtime),
+        atimeMs: entry.atime,
+        mtimeMs: entry.mtime,
+        ctimeMs: entry.ctime,
+        birthtimeMs: entry.birthtime,
     };
 }
 
@@ -19,16 +60,10 @@ export function createStatOps(core: FSCore): StatOps {
     return {
         async stat(in_path: string): Promise<Stats> {
             const path = validatePath(in_path);
-            if(path === '/') {
-                return {
-                    isFile: () => false,
-                    isDirectory: () => true,
-                    mtime: new Date(0),
-                };
-            }
 
-            const db = await core.getDB();
-            const entry = await getEntryByPath(db, path);
+            const tx = await core.transaction('readonly');
+            const {entry} = await resolvePath(tx, path, 'stat');
+            await core.commit(tx);
 
             if(!entry) {
                 throw FSError.ENOENT(path, 'stat');
@@ -36,5 +71,91 @@ export function createStatOps(core: FSCore): StatOps {
 
             return createStats(entry);
         },
+        async lstat(in_path: string): Promise<Stats> {
+            const path = validatePath(in_path);
+
+            const tx = await core.transaction('readonly');
+            const {entry} = await resolveLinkPath(tx, path, 'lstat');
+            await core.commit(tx);
+
+            if(!entry) {
+                throw FSError.ENOENT(path, 'lstat');
+            }
+
+            return createStats(entry);
+        },
+        async exists(in_path: string): Promise<boolean> {
+            const path = validatePath(in_path);
+
+            const tx = await core.transaction('readonly');
+            try {
+                const {entry} = await resolvePath(tx, path, 'stat');
+                return entry != null;
+            } catch(e) {
+                // A link cycle leads nowhere.
+                if(isFSError(e, 'ELOOP')) return false;
+                throw e;
+            } finally {
+                await core.commit(tx);
+            }
+        },
+        async access(in_path: string, mode: number = F_OK): Promise<void> {
+            const path = validatePath(in_path);
+            if(!Number.isInteger(mode) || (mode & ~ACCESS_MODE_MASK) !== 0) {
+                throw FSError.EINVAL(path, 'access');
+            }
+
+            const tx = await core.transaction('readonly');
+            const {entry} = await resolvePath(tx, path, 'access');
+            await core.commit(tx);
+
+            if(!entry) {
+                throw FSError.ENOENT(path, 'access');
+            }
+
+            if(core.options.enforcePermissions === false) return;
+            if(((mode & R_OK) && !(entry.mode & MODE_READ)) || ((mode & W_OK) && !(entry.mode & MODE_WRITE))) {
+                throw FSError.EACCES(path, 'access');
+            }
+        },
+        async utimes(in_path: string, atime: TimeLike, mtime: TimeLike): Promise<void> {
+            const path = validatePath(in_path);
+
+            const atime_ms = toDBTimeStamp(atime);
+            const mtime_ms = toDBTimeStamp(mtime);
+            if(atime_ms == null || mtime_ms == null) {
+                throw FSError.EINVAL(path, 'utime');
+            }
+
+            const tx = await core.transaction('readwrite');
+
+            const {path: real_path, entry} = await resolvePath(tx, path, 'utime');
+            if(!entry) {
+                throw FSError.ENOENT(path, 'utime');
+            }
+
+            await putEntry(tx, toStoragePath(real_path), {...entry, atime: atime_ms, mtime: mtime_ms, ctime: now()});
+            await core.commit(tx);
+
+            core.emit({eventType: 'change', filename: real_path});
+        },
+        async chmod(in_path: string, mode: number): Promise<void> {
+            const path = validatePath(in_path);
+            if(!Number.isInteger(mode) || (mode & ~PERMISSION_MASK) !== 0) {
+                throw FSError.EINVAL(path, 'chmod');
+            }
+
+            const tx = await core.transaction('readwrite');
+
+            const {path: real_path, entry} = await resolvePath(tx, path, 'chmod');
+            if(!entry) {
+                throw FSError.ENOENT(path, 'chmod');
+            }
+
+            await putEntry(tx, toStoragePath(real_path), {...entry, mode, ctime: now()});
+            await core.commit(tx);
+
+            core.emit({eventType: 'change', filename: real_path});
+        },
     };
 }
@@ -0,0 +1,300 @@
+import "fake-indexeddb/auto";
+import {assert} from "chai";
+import {CHUNK_SIZE, CHUNK_STORE_NAME, createFSCore, META_STAGING, META_STORE_NAME, type FSCore} from "./core/index.ts";
+import {createDirOps, type DirOps} from "./dir-ops.ts";
+import {createFileOps, type FileOps} from "./file-ops.ts";
+import {createStatOps} from "./stat-ops.ts";
+import {createStreamOps, sweepStaging, type StreamOps} from "./stream-ops.ts";
+import {assertFSError} from "../error.ts";
+import type {FSBuffer} from "../api/index.ts";
+import type {WatchEvent} from "../api/watch-ops.ts";
+
+async function collect(stream: ReadableStream<FSBuffer>): Promise<FSBuffer[]> {
+    const reader = stream.getReader();
+
+    const chunks: FSBuffer[] = [];
+    for(let result = await reader.read(); !result.done; result = await reader.read()) {
+        chunks.push(result.value);
+    }
+    return chunks;
+}
+
+function concat(chunks: FSBuffer[]): FSBuffer {
+    const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0));
+    let offset = 0;
+    for(const chunk of chunks) {
+        out.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    return out;
+}
+
+describe("createReadStream", () => {
+    let core: FSCore;
+    let dir_ops: DirOps;
+    let file_ops: FileOps;
+    let stream_ops: StreamOps;
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-read-stream");
+        await core.reset();
+        dir_ops = createDirOps(core);
+        file_ops = createFileOps(core);
+        stream_ops = createStreamOps(core);
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    it("should stream the whole file", async () => {
+        const data = new Uint8Array(CHUNK_SIZE * 2 + 5).map((_, i) => i & 0xFF);
+        await file_ops.writeFile("/large.bin", data);
+
+        const chunks = await collect(stream_ops.createReadStream("/large.bin"));
+
+        assert.strictEqual(chunks.length, 3);
+        assert.deepEqual(concat(chunks), data);
+    });
+
+    it("should respect start, inclusive end and highWaterMark", async () => {
+        await file_ops.writeFile("/test.txt", "0123456789");
+
+        const chunks = await collect(stream_ops.createReadStream("/test.txt", {start: 2, end: 7, highWaterMark: 4}));
+
+        assert.deepEqual(chunks.map((chunk) => new TextDecoder().decode(chunk)), ["2345", "67"]);
+    });
+
+    it("should close immediately for an empty file", async () => {
+        await file_ops.writeFile("/empty.txt", "");
+
+        const chunks = await collect(stream_ops.createReadStream("/empty.txt"));
+        assert.deepEqual(chunks, []);
+    });
+
+    it("should error with ENOENT for a missing file", async () => {
+        try {
+            await collect(stream_ops.createReadStream("/missing.txt"));
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'ENOENT');
+        }
+    });
+
+    it("should error with EISDIR for a folder", async () => {
+        await dir_ops.mkdir("/folder/");
+        try {
+            await collect(stream_ops.createReadStream("/folder"));
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'EISDIR');
+        }
+    });
+
+    it("should throw EINVAL for invalid options", () => {
+        try {
+            stream_ops.createReadStream("/test.txt", {start: -1});
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'EINVAL');
+        }
+    });
+});
+
+describe("createWriteStream", () => {
+    let core: FSCore;
+    let dir_ops: DirOps;
+    let file_ops: FileOps;
+    let stream_ops: StreamOps;
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-write-stream");
+        await core.reset();
+        dir_ops = createDirOps(core);
+        file_ops = createFileOps(core);
+        stream_ops = createStreamOps(core);
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    it("should write every chunk on close", async () => {
+        const writer = stream_ops.createWriteStream("/out.txt").getWriter();
+        await writer.write("hello, ");
+        await writer.write(new TextEncoder().encode("world"));
+        await writer.close();
+
+        assert.strictEqual(await file_ops.readFile("/out.txt", "utf-8"), "hello, world");
+    });
+
+    it("should encode string chunks with the given encoding", async () => {
+        const writer = stream_ops.createWriteStream("/out.bin", {encoding: 'hex'}).getWriter();
+        await writer.write("cafe");
+        await writer.write(new Uint8Array([0x00]));
+        await writer.close();
+
+        assert.deepEqual(await file_ops.readFile("/out.bin"), new Uint8Array([0xCA, 0xFE, 0x00]));
+    });
+
+    it("should not touch the file before close", async () => {
+        await file_ops.writeFile("/out.txt", "original");
+
+        const writer = stream_ops.createWriteStream("/out.txt").getWriter();
+        await writer.write("replaced");
+
+        assert.strictEqual(await file_ops.readFile("/out.txt", "utf-8"), "original");
+
+        await writer.close();
+        assert.strictEqual(await file_ops.readFile("/out.txt", "utf-8"), "replaced");
+    });
+
+    it("should roll back when aborted", async () => {
+        await file_ops.writeFile("/out.txt", "original");
+
+        const writer = stream_ops.createWriteStream("/out.txt").getWriter();
+        await writer.write(new Uint8Array(CHUNK_SIZE + 1));
+        await writer.abort();
+
+        assert.strictEqual(await file_ops.readFile("/out.txt", "utf-8"), "original");
+
+        const db = await core.getDB();
+        assert.strictEqual(await db.count(CHUNK_STORE_NAME), 1);
+    });
+
+    it("should append with 'a'", async () => {
+        await file_ops.writeFile("/log.txt", "a");
+
+        const writer = stream_ops.createWriteStream("/log.txt", {flags: 'a'}).getWriter();
+        await writer.write("b");
+        await writer.write("c");
+        await writer.close();
+
+        assert.strictEqual(await file_ops.readFile("/log.txt", "utf-8"), "abc");
+    });
+
+    it("should append across chunk boundaries", async () => {
+        const head = new Uint8Array(CHUNK_SIZE - 1).fill(1);
+        const tail = new Uint8Array(CHUNK_SIZE + 2).fill(2);
+        await file_ops.writeFile("/data.bin", head);
+
+        const writer = stream_ops.createWriteStream("/data.bin", {flags: 'a'}).getWriter();
+        await writer.write(tail);
+        await writer.close();
+
+        assert.deepEqual(await file_ops.readFile("/data.bin"), concat([head, tail]));
+    });
+
+    it("should fail with EEXIST for 'wx' on an existing file", async () => {
+        await file_ops.writeFile("/out.txt", "original");
+
+        const writer = stream_ops.createWriteStream("/out.txt", {flags: 'wx'}).getWriter();
+        try {
+            await writer.write("x");
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'EEXIST');
+        }
+    });
+
+    it("should fail with EACCES for a read-only file", async () => {
+        await file_ops.writeFile("/out.txt", "original");
+        await createStatOps(core).chmod("/out.txt", 0o444);
+
+        const writer = stream_ops.createWriteStream("/out.txt").getWriter();
+        try {
+            await writer.write("x");
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'EACCES');
+        }
+    });
+
+    it("should keep the mode of a replaced file", async () => {
+        await file_ops.writeFile("/out.txt", "original");
+        await createStatOps(core).chmod("/out.txt", 0o600);
+
+        const writer = stream_ops.createWriteStream("/out.txt").getWriter();
+        await writer.write("replaced");
+        await writer.close();
+
+        assert.strictEqual((await createStatOps(core).stat("/out.txt")).mode & 0o777, 0o600);
+    });
+
+    it("should fail with EISDIR when a folder exists at the path", async () => {
+        await dir_ops.mkdir("/folder/");
+
+        const writer = stream_ops.createWriteStream("/folder").getWriter();
+        try {
+            await writer.close();
+            assert.fail("Expected error");
+        } catch (err) {
+            assertFSError(err, 'EISDIR');
+        }
+    });
+
+    it("should emit the same events as writeFile", async () => {
+        const events: WatchEvent[] = [];
+        const unsubscribe = core.subscribe((event) => events.push(event));
+
+        const writer = stream_ops.createWriteStream("/dir/out.txt").getWriter();
+        await writer.write("a");
+        await writer.write("b");
+        assert.deepEqual(events, []);
+        await writer.close();
+
+        const overwriter = stream_ops.createWriteStream("/dir/out.txt").getWriter();
+        await overwriter.close();
+        unsubscribe();
+
+        assert.deepEqual(events, [
+            {eventType: 'rename', filename: '/dir/'},
+            {eventType: 'rename', filename: '/dir/out.txt'},
+            {eventType: 'change', filename: '/dir/out.txt'},
+        ]);
+    });
+
+    it("should reuse the staged content when replacing a file without other names", async () => {
+        await file_ops.writeFile("/out.bin", new Uint8Array(CHUNK_SIZE + 1));
+
+        const writer = stream_ops.createWriteStream("/out.bin").getWriter();
+        await writer.write(new Uint8Array(CHUNK_SIZE * 2).fill(1));
+        await writer.close();
+
+        const db = await core.getDB();
+        assert.strictEqual(await db.count(CHUNK_STORE_NAME), 2);
+        assert.strictEqual(await db.count(META_STORE_NAME, IDBKeyRange.bound([META_STAGING], [META_STAGING, []])), 0);
+        assert.deepEqual(await file_ops.readFile("/out.bin"), new Uint8Array(CHUNK_SIZE * 2).fill(1));
+    });
+
+    context("sweepStaging", () => {
+        const original_now = Date.now;
+
+        afterEach(() => {
+            Date.now = original_now;
+        });
+
+        it("should delete the content of abandoned streams", async () => {
+            const writer = stream_ops.createWriteStream("/out.txt").getWriter();
+            await writer.write("abandoned");
+
+            const start = original_now();
+            Date.now = () => start + 3_600_000;
+            await sweepStaging(core, 60_000);
+
+            const db = await core.getDB();
+            assert.strictEqual(await db.count(CHUNK_STORE_NAME), 0);
+            assert.strictEqual(await db.count(META_STORE_NAME, IDBKeyRange.bound([META_STAGING], [META_STAGING, []])), 0);
+        });
+
+        it("should keep the content of streams written recently", async () => {
+            const writer = stream_ops.createWriteStream("/out.txt").getWriter();
+            await writer.write("kept");
+
+            await sweepStaging(core);
+            await writer.close();
+
+            assert.strictEqual(await file_ops.readFile("/out.txt", "utf-8"), "kept");
+        });
+    });
+});
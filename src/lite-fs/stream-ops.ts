@@ -0,0 +1,250 @@
+export type {StreamOps} from "../api/stream-ops.ts";
+import type {ReadStreamOptions, StreamOps, WriteStreamFlags, WriteStreamOptions} from "../api/stream-ops.ts";
+import type {FSBuffer} from "../api/index.ts";
+
+import {isEncoding, toBytes} from "../encoding.ts";
+import {FSError} from "../error.ts";
+import {validatePath, type AbsoluteFilePath} from "../path.ts";
+import {
+    abortTransaction,
+    allocateIno,
+    checkParentWritable,
+    checkWritable,
+    CHUNK_SIZE,
+    copyContent,
+    createDBFileEntry,
+    deleteContent,
+    ensureParentDirs,
+    META_STAGING,
+    META_STORE_NAME,
+    modifyDBEntry,
+    now,
+    putEntry,
+    readContent,
+    recordAccess,
+    releaseInode,
+    resolvePath,
+    toStoragePath,
+    touchParentDir,
+    writeContent,
+    type DBFileEntry,
+    type DBFolderEntry,
+    type DBTimeStamp,
+    type FSCore,
+    type FSTransaction,
+    type FSWriteTransaction,
+    type ResolvedPath,
+} from "./core/index.ts";
+import {checkNoEntry} from "./file-handle.ts";
+
+const WRITE_STREAM_FLAGS: ReadonlySet<string> = new Set<WriteStreamFlags>(['w', 'wx', 'a', 'ax']);
+
+function isValidOffset(value: number): boolean {
+    return Number.isSafeInteger(value) && value >= 0;
+}
+
+/** Write streams left this long without a write are taken as abandoned by `sweepStaging`. */
+const STAGING_MAX_IDLE = 24 * 60 * 60 * 1000;
+
+function getStagingKey(ino: number): [string, number] {
+    return [META_STAGING, ino];
+}
+
+/** Records a write to the content staged under `ino`, so that `sweepStaging` keeps it. */
+async function touchStaging(tx: FSWriteTransaction, ino: number): Promise<void> {
+    await tx.objectStore(META_STORE_NAME).put(now(), getStagingKey(ino));
+}
+
+async function deleteStaging(tx: FSWriteTransaction, ino: number, with_content: boolean): Promise<void> {
+    await tx.objectStore(META_STORE_NAME).delete(getStagingKey(ino));
+    if(with_content) {
+        await deleteContent(tx, ino);
+    }
+}
+
+/**
+ * Deletes the content staged by write streams that were neither closed nor aborted, e.g. because their tab was closed.
+ * Only streams without a write for `max_idle` milliseconds are swept, so that ones still open elsewhere are kept.
+ */
+export async function sweepStaging(core: FSCore, max_idle: number = STAGING_MAX_IDLE): Promise<void> {
+    const tx = await core.transaction('readwrite');
+    const store = tx.objectStore(META_STORE_NAME);
+    const threshold = now() - max_idle;
+
+    // Array keys sort after strings and numbers, so `[META_STAGING, []]` bounds every ino.
+    const range = IDBKeyRange.bound([META_STAGING], [META_STAGING, []]);
+    for(let cursor = await store.openCursor(range); cursor; cursor = await cursor.continue()) {
+        if((cursor.value as DBTimeStamp) >= threshold) continue;
+
+        const [, ino] = cursor.key as [string, number];
+        await deleteStaging(tx, ino, true);
+    }
+
+    await core.commit(tx);
+}
+
+export function createStreamOps(core: FSCore): StreamOps {
+    return {
+        createReadStream(in_path: string, options?: ReadStreamOptions): ReadableStream<FSBuffer> {
+            const path = validatePath(in_path, 'file');
+
+            const start = options?.start ?? 0;
+            const end = options?.end ?? Infinity;
+            const high_water_mark = options?.highWaterMark ?? CHUNK_SIZE;
+
+            if(!isValidOffset(start) || (end !== Infinity && !isValidOffset(end)) || !isValidOffset(high_water_mark) || high_water_mark === 0) {
+                throw FSError.EINVAL(path, 'open');
+            }
+
+            let position = start;
+
+            return new ReadableStream<FSBuffer>({
+                async pull(controller) {
+                    const tx = await core.transaction('readonly');
+
+                    const {entry} = await resolvePath(tx, path, 'read');
+                    if(!entry) throw FSError.ENOENT(path, 'read');
+                    if(entry.type !== 'file') throw FSError.EISDIR(path, 'read');
+
+                    // `end` is inclusive.
+                    const stop = Math.min(end + 1, entry.size);
+                    const bytes = await readContent(tx, entry.ino, entry.size, position, Math.min(stop, position + high_water_mark));
+                    await core.commit(tx);
+
+                    if(bytes.byteLength > 0) {
+                        controller.enqueue(bytes);
+                        position += bytes.byteLength;
+                    }
+
+                    if(position >= stop) {
+                        controller.close();
+                        await recordAccess(core, entry.ino);
+                    }
+                },
+            });
+        },
+        createWriteStream(in_path: string, options?: WriteStreamOptions): WritableStream<string | Uint8Array> {
+            const path = validatePath(in_path, 'file');
+
+            const flags = options?.flags ?? 'w';
+            const encoding = options?.encoding ?? 'utf-8';
+            if(!WRITE_STREAM_FLAGS.has(flags) || !isEncoding(encoding)) {
+                throw FSError.EINVAL(path, 'open');
+            }
+
+            const is_append = flags.startsWith('a');
+            const is_exclusive = flags.endsWith('x');
+
+            // Data is staged under its own ino, recorded in the meta store, and only becomes the content of `path` on close.
+            let staging_ino = 0;
+            let staged_size = 0;
+
+            /** Checks the file that `path` leads to, through any links, and returns it. */
+            const checkTarget = async (tx: FSTransaction): Promise<ResolvedPath<AbsoluteFilePath, DBFileEntry | DBFolderEntry>> => {
+                if(is_exclusive) await checkNoEntry(tx, path, 'open');
+
+                const target = await resolvePath(tx, path, 'open');
+                const entry = target.entry;
+                if(entry?.type === 'folder') throw FSError.EISDIR(path, 'open');
+
+                if(entry) {
+                    checkWritable(core, entry, path, 'open');
+                } else {
+                    await checkParentWritable(core, tx, target.path, 'open');
+                }
+
+                return target;
+            };
+
+            const discard = async () => {
+                const tx = await core.transaction('readwrite');
+                await deleteStaging(tx, staging_ino, true);
+                await core.commit(tx);
+            };
+
+            const commit = async () => {
+                const tx = await core.transaction('readwrite');
+
+                const {path: real_path, entry: existing} = await checkTarget(tx);
+                const key = toStoragePath(real_path);
+
+                const created_dirs = await ensureParentDirs(core, tx, real_path);
+
+                try {
+                    if(is_append && existing?.type === 'file') {
+                        let size = existing.size;
+                        for(let offset = 0; offset < staged_size; offset += CHUNK_SIZE) {
+                            const bytes = await readContent(tx, staging_ino, staged_size, offset, offset + CHUNK_SIZE);
+                            size = await writeContent(tx, existing.ino, size, bytes, existing.size + offset);
+                        }
+
+                        await deleteStaging(tx, staging_ino, true);
+                        await putEntry(tx, key, modifyDBEntry(existing, {size}));
+                    } else if(existing?.type === 'file' && existing.nlink > 1) {
+                        // The file keeps its ino, so that its other names see the new content too.
+                        await deleteContent(tx, existing.ino);
+                        await copyContent(tx, staging_ino, existing.ino);
+                        await deleteStaging(tx, staging_ino, true);
+                        await putEntry(tx, key, modifyDBEntry(existing, {size: staged_size}));
+                    } else if(existing?.type === 'file') {
+                        // Without other names, the staged content takes the place of the old one as it is.
+                        await releaseInode(tx, existing);
+                        await deleteStaging(tx, staging_ino, false);
+                        await putEntry(tx, key, modifyDBEntry(existing, {ino: staging_ino, size: staged_size}));
+                    } else {
+                        await deleteStaging(tx, staging_ino, false);
+                        await putEntry(tx, key, createDBFileEntry(real_path, staging_ino, staged_size));
+                    }
+
+                    if(!existing) {
+                        await touchParentDir(tx, real_path);
+                    }
+                } catch(e) {
+                    abortTransaction(tx);
+                    throw e;
+                }
+
+                await core.commit(tx);
+
+                for(const dir of created_dirs) {
+                    core.emit({eventType: 'rename', filename: dir});
+                }
+
+                core.emit({
+                    eventType: existing ? 'change' : 'rename',
+                    filename: real_path,
+                });
+            };
+
+            return new WritableStream<string | Uint8Array>({
+                async start() {
+                    const tx = await core.transaction('readwrite');
+
+                    await checkTarget(tx);
+                    staging_ino = await allocateIno(tx);
+                    await touchStaging(tx, staging_ino);
+                    await core.commit(tx);
+                },
+                async write(chunk) {
+                    const bytes = toBytes(chunk, encoding);
+
+                    const tx = await core.transaction('readwrite');
+                    staged_size = await writeContent(tx, staging_ino, staged_size, bytes, staged_size);
+                    await touchStaging(tx, staging_ino);
+                    await core.commit(tx);
+                },
+                async close() {
+                    try {
+                        await commit();
+                    } catch(e) {
+                        await discard();
+                        throw e;
+                    }
+                },
+                async abort() {
+                    await discard();
+                },
+            });
+        },
+    };
+}
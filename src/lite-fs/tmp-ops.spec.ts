@@ -0,0 +1,165 @@
+import "fake-indexeddb/auto";
+import {assert} from "chai";
+import {createFSCore, type FSCore} from "./core/index.ts";
+import {createDirOps, type DirOps} from "./dir-ops.ts";
+import {createFileOps, type FileOps} from "./file-ops.ts";
+import {createStatOps, type StatOps} from "./stat-ops.ts";
+import {createTmpOps, sweepTmp, type TmpOps} from "./tmp-ops.ts";
+import {assertFSError} from "../error.ts";
+
+describe("tmp", () => {
+    let core: FSCore;
+    let dir_ops: DirOps;
+    let file_ops: FileOps;
+    let stat_ops: StatOps;
+    let tmp_ops: TmpOps;
+
+    const original_random = Math.random;
+    const original_now = Date.now;
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-tmp");
+        await core.reset();
+        dir_ops = createDirOps(core);
+        file_ops = createFileOps(core);
+        stat_ops = createStatOps(core);
+        tmp_ops = createTmpOps(core);
+    });
+
+    afterEach(async () => {
+        Math.random = original_random;
+        Date.now = original_now;
+        await core.reset();
+    });
+
+    describe("mkdtemp", () => {
+        it("should create a folder named by the prefix and a random suffix", async () => {
+            await dir_ops.mkdir("/work/");
+
+            const path = await tmp_ops.mkdtemp("/work/import-");
+
+            assert.match(path, /^\/work\/import-[a-z0-9]{6}\/$/);
+            assert.isTrue((await stat_ops.stat(path)).isDirectory());
+            assert.notStrictEqual(await tmp_ops.mkdtemp("/work/import-"), path);
+        });
+
+        it("should retry with another name when one exists", async () => {
+            await dir_ops.mkdir("/work/aaaaaa/", {recursive: true});
+
+            // The first name is all `a`; the next ones are not.
+            let calls = 0;
+            Math.random = () => (calls++ < 6 ? 0 : 0.5);
+
+            const path = await tmp_ops.mkdtemp("/work/");
+
+            assert.notStrictEqual(path, "/work/aaaaaa/");
+            assert.isTrue(await stat_ops.exists(path));
+        });
+
+        it("should throw EEXIST when every name tried exists", async () => {
+            await dir_ops.mkdir("/work/aaaaaa/", {recursive: true});
+            Math.random = () => 0;
+
+            try {
+                await tmp_ops.mkdtemp("/work/");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EEXIST');
+            }
+        });
+
+        it("should throw ENOENT if the parent folder does not exist", async () => {
+            try {
+                await tmp_ops.mkdtemp("/missing/tmp-");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'ENOENT');
+            }
+        });
+
+        it("should throw EINVAL for an invalid prefix", async () => {
+            for(const prefix of ["tmp-", "/a//tmp-", "/../tmp-"]) {
+                try {
+                    await tmp_ops.mkdtemp(prefix);
+                    assert.fail("Expected error");
+                } catch (err) {
+                    assertFSError(err, 'EINVAL');
+                }
+            }
+        });
+    });
+
+    describe("tmp", () => {
+        it("should create a folder under /tmp/", async () => {
+            const dir = await tmp_ops.tmp({prefix: "import-"});
+
+            assert.match(dir.path, /^\/tmp\/import-[a-z0-9]{6}\/$/);
+            assert.isTrue(await stat_ops.exists(dir.path));
+        });
+
+        it("should remove the folder and its contents on dispose", async () => {
+            const dir = await tmp_ops.tmp();
+            await file_ops.writeFile(`${dir.path}nested/data.bin`, "data");
+
+            await dir[Symbol.asyncDispose]();
+
+            assert.isFalse(await stat_ops.exists(dir.path));
+            assert.isTrue(await stat_ops.exists("/tmp/"));
+        });
+
+        it("should do nothing when removed twice", async () => {
+            const dir = await tmp_ops.tmp();
+
+            await dir.remove();
+            await dir.remove();
+
+            assert.isFalse(await stat_ops.exists(dir.path));
+        });
+
+        it("should throw EINVAL for a prefix with a slash", async () => {
+            try {
+                await tmp_ops.tmp({prefix: "a/b"});
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'EINVAL');
+            }
+        });
+    });
+
+    describe("sweepTmp", () => {
+        it("should remove only the temporary folders older than the given age", async () => {
+            const old_dir = await tmp_ops.tmp();
+            await file_ops.writeFile(`${old_dir.path}data.bin`, "data");
+            await file_ops.writeFile("/tmp/note.txt", "note");
+
+            const start = original_now();
+            Date.now = () => start + 3_600_000;
+
+            const new_dir = await tmp_ops.tmp();
+
+            await sweepTmp(core, 60_000);
+
+            assert.isFalse(await stat_ops.exists(old_dir.path));
+            assert.isTrue(await stat_ops.exists(new_dir.path));
+            assert.isTrue(await stat_ops.exists("/tmp/note.txt"));
+        });
+
+        it("should keep the folders in /tmp/ that tmp did not create", async () => {
+            await file_ops.writeFile("/tmp/cache/data.bin", "data");
+            await tmp_ops.mkdtemp("/tmp/import-");
+
+            const start = original_now();
+            Date.now = () => start + 3_600_000;
+
+            await sweepTmp(core, 60_000);
+
+            assert.isTrue(await stat_ops.exists("/tmp/cache/data.bin"));
+            assert.lengthOf(await dir_ops.readdir("/tmp/"), 2);
+        });
+
+        it("should do nothing without /tmp/", async () => {
+            await sweepTmp(core, 0);
+            assert.isFalse(await stat_ops.exists("/tmp/"));
+        });
+    });
+});
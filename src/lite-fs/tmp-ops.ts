@@ -0,0 +1,139 @@
+export type {TmpOps} from "../api/tmp-ops.ts";
+import type {TmpDir, TmpOps, TmpOptions} from "../api/tmp-ops.ts";
+
+import {FSError} from "../error.ts";
+import {getBaseName, getParentPath, isAbsolutePath, validatePath, type AbsoluteFolderPath} from "../path.ts";
+import {
+    allocateIno,
+    checkParentDir,
+    checkParentWritable,
+    createDBFolderEntry,
+    getEntryByPath,
+    now,
+    putEntryByPath,
+    readChildren,
+    resolvePath,
+    toStoragePath,
+    touchParentDir,
+    type FSCore,
+} from "./core/index.ts";
+import {createDirOps} from "./dir-ops.ts";
+import {createRemoveOps} from "./remove-ops.ts";
+
+const TMP_DIR = '/tmp/';
+
+const DEFAULT_TMP_PREFIX = 'tmp-';
+
+const SUFFIX_CHARS = 'abcdefghijklmnopqrstuvwxyz0123456789';
+const SUFFIX_LENGTH = 6;
+
+/** Number of names tried before giving up with `EEXIST`. */
+const MAX_MKDTEMP_ATTEMPTS = 100;
+
+function createSuffix(): string {
+    let suffix = '';
+    for(let i = 0; i < SUFFIX_LENGTH; ++i) {
+        suffix += SUFFIX_CHARS[Math.floor(Math.random() * SUFFIX_CHARS.length)];
+    }
+    return suffix;
+}
+
+/**
+ * Removes the folders that `tmp` created more than `max_age` milliseconds ago, such as ones left by a crash.
+ * Other entries in `/tmp/` are kept, as are folders that cannot be removed, e.g. because of their mode.
+ */
+export async function sweepTmp(core: FSCore, max_age: number): Promise<void> {
+    const tx = await core.transaction('readonly');
+    const tmp_entry = await getEntryByPath(tx, TMP_DIR);
+    const children = tmp_entry?.type === 'folder' ? await readChildren(tx, toStoragePath(TMP_DIR)) : [];
+    await core.commit(tx);
+
+    const remove_ops = createRemoveOps(core);
+    const threshold = now() - max_age;
+
+    for(const {name, entry} of children) {
+        if(entry.type !== 'folder' || !entry.temporary || entry.birthtime >= threshold) continue;
+
+        try {
+            await remove_ops.rm(`${TMP_DIR}${name}/`, {recursive: true, force: true});
+        } catch{
+            /* leave it for the next sweep */
+        }
+    }
+}
+
+export function createTmpOps(core: FSCore): TmpOps {
+    const dir_ops = createDirOps(core);
+    const remove_ops = createRemoveOps(core);
+
+    /** Creates a folder as `mkdtemp` does; `temporary` marks it for `sweepTmp`. */
+    async function createTempFolder(prefix: string, temporary: boolean): Promise<AbsoluteFolderPath> {
+        if(!isAbsolutePath(prefix)) {
+            throw FSError.EINVAL(prefix, 'mkdtemp');
+        }
+
+        try {
+            validatePath(`${prefix}${'X'.repeat(SUFFIX_LENGTH)}/`, 'folder');
+        } catch{
+            throw FSError.EINVAL(prefix, 'mkdtemp');
+        }
+
+        const tx = await core.transaction('readwrite');
+
+        // Every name shares its parent folder with the others, so it is resolved and checked only once.
+        let path = validatePath(`${prefix}${createSuffix()}/`, 'folder');
+        const {path: parent} = await resolvePath(tx, getParentPath(path), 'mkdtemp');
+        const toRealPath = (name_path: AbsoluteFolderPath) => `${parent}${getBaseName(name_path)}/` as AbsoluteFolderPath;
+
+        await checkParentDir(tx, toRealPath(path), 'mkdtemp');
+        await checkParentWritable(core, tx, toRealPath(path), 'mkdtemp');
+
+        for(let attempt = 1; await getEntryByPath(tx, toRealPath(path)); ++attempt) {
+            if(attempt >= MAX_MKDTEMP_ATTEMPTS) {
+                throw FSError.EEXIST(path, 'mkdtemp');
+            }
+            path = validatePath(`${prefix}${createSuffix()}/`, 'folder');
+        }
+
+        const real_path = toRealPath(path);
+        const entry = createDBFolderEntry(real_path, await allocateIno(tx));
+        if(temporary) {
+            entry.temporary = true;
+        }
+        await putEntryByPath(tx, real_path, entry);
+        await touchParentDir(tx, real_path);
+        await core.commit(tx);
+
+        core.emit({eventType: 'rename', filename: real_path});
+
+        return path;
+    }
+
+    return {
+        mkdtemp(prefix: string): Promise<AbsoluteFolderPath> {
+            return createTempFolder(prefix, false);
+        },
+        async tmp(options?: TmpOptions): Promise<TmpDir> {
+            // The folder outlives the transaction, which its removal could not run in.
+            if(core.inTransaction) {
+                throw new Error("Cannot create a temporary folder inside a transaction.");
+            }
+
+            const prefix = options?.prefix ?? DEFAULT_TMP_PREFIX;
+            if(prefix.includes('/')) {
+                throw FSError.EINVAL(prefix, 'mkdtemp');
+            }
+
+            await dir_ops.mkdir(TMP_DIR, {recursive: true});
+            const path = await createTempFolder(`${TMP_DIR}${prefix}`, true);
+
+            const remove = () => remove_ops.rm(path, {recursive: true, force: true});
+
+            return {
+                path,
+                remove,
+                [Symbol.asyncDispose]: remove,
+            };
+        },
+    };
+}
@@ -0,0 +1,180 @@
+import "fake-indexeddb/auto";
+import {assert} from "chai";
+import {createFSCore, type FSCore} from "./core/index.ts";
+import {createDirOps, type DirOps} from "./dir-ops.ts";
+import {createFileOps, type FileOps} from "./file-ops.ts";
+import {runTransaction} from "./transaction.ts";
+import {assertFSError, type FSErrorCode} from "../error.ts";
+import type {WatchEvent} from "../api/watch-ops.ts";
+
+describe("runTransaction", () => {
+    let core: FSCore;
+    let dir_ops: DirOps;
+    let file_ops: FileOps;
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-transaction");
+        await core.reset();
+        dir_ops = createDirOps(core);
+        file_ops = createFileOps(core);
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    it("should commit every operation and return the result", async () => {
+        await file_ops.writeFile("/old/data.txt", "old");
+
+        const result = await runTransaction(core, async (fs) => {
+            await fs.writeFile("/manifest.json", "{}");
+            await fs.writeFile("/new/a.txt", "a");
+            await fs.writeFile("/new/b.txt", "b");
+            await fs.rm("/old/", {recursive: true});
+            return "done";
+        });
+
+        assert.strictEqual(result, "done");
+        assert.sameMembers(await dir_ops.readdir("/"), ["manifest.json", "new"]);
+        assert.sameMembers(await dir_ops.readdir("/new/"), ["a.txt", "b.txt"]);
+    });
+
+    it("should let reads see earlier writes", async () => {
+        await runTransaction(core, async (fs) => {
+            await fs.writeFile("/counter.txt", "1");
+            await fs.appendFile("/counter.txt", "2");
+
+            assert.strictEqual(await fs.readFile("/counter.txt", "utf-8"), "12");
+            assert.deepEqual(await fs.readdir("/"), ["counter.txt"]);
+            assert.isTrue((await fs.stat("/counter.txt")).isFile());
+        });
+    });
+
+    it("should commit nothing when the callback throws", async () => {
+        await file_ops.writeFile("/keep.txt", "original");
+
+        try {
+            await runTransaction(core, async (fs) => {
+                await fs.writeFile("/keep.txt", "changed");
+                await fs.writeFile("/dir/new.txt", "new");
+                throw new Error("boom");
+            });
+            assert.fail("Expected error");
+        } catch (err) {
+            assert.strictEqual((err as Error).message, "boom");
+        }
+
+        assert.strictEqual(await file_ops.readFile("/keep.txt", "utf-8"), "original");
+        assert.deepEqual(await dir_ops.readdir("/"), ["keep.txt"]);
+    });
+
+    it("should not leave the rejection of an aborted transaction unhandled", async () => {
+        const unhandled: unknown[] = [];
+        const onUnhandled = (reason: unknown) => unhandled.push(reason);
+        process.on('unhandledRejection', onUnhandled);
+
+        try {
+            await runTransaction(core, async () => {
+                throw new Error("boom");
+            }).catch(() => {});
+
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        } finally {
+            process.off('unhandledRejection', onUnhandled);
+        }
+
+        assert.deepEqual(unhandled, []);
+    });
+
+    it("should keep going after an operation fails before writing", async () => {
+        await runTransaction(core, async (fs) => {
+            try {
+                await fs.stat("/missing.txt");
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'ENOENT');
+            }
+
+            await fs.writeFile("/created.txt", "x");
+        });
+
+        assert.strictEqual(await file_ops.readFile("/created.txt", "utf-8"), "x");
+    });
+
+    it("should keep the batch usable when a caught operation fails its checks", async () => {
+        await file_ops.writeFile("/file", "content");
+        await file_ops.writeFile("/src/a.txt", "a");
+        await file_ops.writeFile("/src/b.txt", "b");
+        await file_ops.writeFile("/dest/b.txt", "existing");
+
+        await runTransaction(core, async (fs) => {
+            await fs.writeFile("/first.txt", "first");
+
+            const failing: Array<[() => Promise<unknown>, FSErrorCode]> = [
+                [() => fs.writeFile("/file/x.txt", "x"), 'ENOTDIR'],
+                [() => fs.mkdir("/file/a/b/", {recursive: true}), 'ENOTDIR'],
+                [() => fs.cp("/src/", "/dest/", {recursive: true, force: false, errorOnExist: true}), 'EEXIST'],
+            ];
+            for(const [operation, code] of failing) {
+                try {
+                    await operation();
+                    assert.fail("Expected error");
+                } catch (err) {
+                    assertFSError(err, code);
+                }
+            }
+
+            await fs.writeFile("/last.txt", "last");
+        });
+
+        assert.sameMembers(await dir_ops.readdir("/"), ["file", "src", "dest", "first.txt", "last.txt"]);
+        assert.deepEqual(await dir_ops.readdir("/dest/"), ["b.txt"]);
+        assert.strictEqual(await file_ops.readFile("/file", "utf-8"), "content");
+    });
+
+    it("should reject tmp, whose folder outlives the transaction", async () => {
+        try {
+            await runTransaction(core, (fs) => fs.tmp());
+            assert.fail("Expected error");
+        } catch (err) {
+            assert.instanceOf(err, Error);
+            assert.match((err as Error).message, /transaction/);
+        }
+
+        assert.deepEqual(await dir_ops.readdir("/"), []);
+    });
+
+    it("should emit watch events only after the commit", async () => {
+        const events: WatchEvent[] = [];
+        const unsubscribe = core.subscribe((event) => events.push(event));
+
+        await runTransaction(core, async (fs) => {
+            await fs.writeFile("/a.txt", "a");
+            await fs.mkdir("/dir/");
+            assert.deepEqual(events, []);
+        });
+        unsubscribe();
+
+        assert.deepEqual(events, [
+            {eventType: 'rename', filename: '/a.txt'},
+            {eventType: 'rename', filename: '/dir/'},
+        ]);
+    });
+
+    it("should not emit watch events for a rolled back transaction", async () => {
+        const events: WatchEvent[] = [];
+        const unsubscribe = core.subscribe((event) => events.push(event));
+
+        try {
+            await runTransaction(core, async (fs) => {
+                await fs.writeFile("/a.txt", "a");
+                throw new Error("boom");
+            });
+        } catch {
+            /* expected */
+        }
+        unsubscribe();
+
+        assert.deepEqual(events, []);
+    });
+});
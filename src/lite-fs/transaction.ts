@@ -0,0 +1,59 @@
+import type {FileSystemAPI} from "../api/index.ts";
+import {abortTransaction, createTransactionCore, type FSCore} from "./core/index.ts";
+import {createCopyOps} from "./copy-ops.ts";
+import {createDirOps} from "./dir-ops.ts";
+import {createFileOps} from "./file-ops.ts";
+import {createGlobOps} from "./glob-ops.ts";
+import {createLinkOps} from "./link-ops.ts";
+import {createRemoveOps} from "./remove-ops.ts";
+import {createRenameOps} from "./rename-ops.ts";
+import {createStatOps} from "./stat-ops.ts";
+import {createStreamOps} from "./stream-ops.ts";
+import {createTmpOps} from "./tmp-ops.ts";
+import {createWalkOps} from "./walk-ops.ts";
+import {createWatchOps} from "./watch-ops.ts";
+
+function createFileSystemAPI(core: FSCore): FileSystemAPI {
+    return {
+        ...createCopyOps(core),
+        ...createDirOps(core),
+        ...createFileOps(core),
+        ...createGlobOps(core),
+        ...createLinkOps(core),
+        ...createRemoveOps(core),
+        ...createRenameOps(core),
+        ...createStatOps(core),
+        ...createStreamOps(core),
+        ...createTmpOps(core),
+        ...createWalkOps(core),
+        ...createWatchOps(core),
+    };
+}
+
+/**
+ * Runs `fn` with a view of the file system whose operations all share one readwrite transaction.
+ *
+ * The transaction commits once `fn` resolves, and is aborted if `fn` throws.
+ * Watch events are held back until the transaction commits.
+ */
+export async function runTransaction<T>(core: FSCore, fn: (fs: FileSystemAPI) => Promise<T>): Promise<T> {
+    const tx = await core.transaction('readwrite');
+    const tx_core = createTransactionCore(core, tx);
+
+    let result: T;
+    try {
+        result = await fn(createFileSystemAPI(tx_core));
+    } catch(e) {
+        try {
+            abortTransaction(tx);
+        } catch{
+            /* already aborted, or committed early */
+        }
+        throw e;
+    }
+
+    await core.commit(tx);
+    tx_core.flush();
+
+    return result;
+}
@@ -0,0 +1,157 @@
+import "fake-indexeddb/auto";
+import {assert} from "chai";
+import {createFSCore, type FSCore} from "./core/index.ts";
+import {createDirOps, type DirOps} from "./dir-ops.ts";
+import {createFileOps, type FileOps} from "./file-ops.ts";
+import {createLinkOps} from "./link-ops.ts";
+import {createWalkOps, type WalkOps} from "./walk-ops.ts";
+import type {WalkOptions} from "../api/walk-ops.ts";
+import {assertFSError} from "../error.ts";
+
+async function collect<T>(iterator: AsyncIterableIterator<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterator) {
+        items.push(item);
+    }
+    return items;
+}
+
+describe("walk", () => {
+    let core: FSCore;
+    let dir_ops: DirOps;
+    let file_ops: FileOps;
+    let walk_ops: WalkOps;
+
+    const walkPaths = async (root: string, options?: WalkOptions & {withStats?: false}) => {
+        return (await collect(walk_ops.walk(root, options))).map(({path}) => path);
+    };
+
+    beforeEach(async () => {
+        core = createFSCore("test-fs-walk");
+        await core.reset();
+        dir_ops = createDirOps(core);
+        file_ops = createFileOps(core);
+        walk_ops = createWalkOps(core);
+
+        await file_ops.writeFile("/tree/a/a1.txt", "a1");
+        await file_ops.writeFile("/tree/a/deep/a2.txt", "a2");
+        await file_ops.writeFile("/tree/b.txt", "b");
+        await dir_ops.mkdir("/tree/c/");
+    });
+
+    afterEach(async () => {
+        await core.reset();
+    });
+
+    context("order", () => {
+        it("should visit folders before their contents by default", async () => {
+            assert.deepEqual(await walkPaths("/tree/"), [
+                "/tree/a/", "/tree/a/a1.txt", "/tree/a/deep/", "/tree/a/deep/a2.txt", "/tree/b.txt", "/tree/c/",
+            ]);
+        });
+
+        it("should visit folders after their contents with post", async () => {
+            assert.deepEqual(await walkPaths("/tree/", {order: 'post'}), [
+                "/tree/a/a1.txt", "/tree/a/deep/a2.txt", "/tree/a/deep/", "/tree/a/", "/tree/b.txt", "/tree/c/",
+            ]);
+        });
+
+        it("should visit level by level with bfs", async () => {
+            assert.deepEqual(await walkPaths("/tree/", {order: 'bfs'}), [
+                "/tree/a/", "/tree/b.txt", "/tree/c/", "/tree/a/a1.txt", "/tree/a/deep/", "/tree/a/deep/a2.txt",
+            ]);
+        });
+
+        it("should walk the whole tree from the root", async () => {
+            const paths = await walkPaths("/");
+            assert.strictEqual(paths[0], "/tree/");
+            assert.lengthOf(paths, 7);
+        });
+    });
+
+    context("options", () => {
+        it("should set depths, and stop at maxDepth", async () => {
+            const entries = await collect(walk_ops.walk("/tree/", {maxDepth: 2}));
+
+            assert.deepEqual(entries.map(({path, depth}) => [path, depth]), [
+                ["/tree/a/", 1], ["/tree/a/a1.txt", 2], ["/tree/a/deep/", 2], ["/tree/b.txt", 1], ["/tree/c/", 1],
+            ]);
+            assert.deepEqual(await walkPaths("/tree/", {maxDepth: 0}), []);
+        });
+
+        it("should leave out filtered entries, but still visit their contents", async () => {
+            const paths = await walkPaths("/tree/", {filter: ({dirent}) => dirent.isFile()});
+            assert.deepEqual(paths, ["/tree/a/a1.txt", "/tree/a/deep/a2.txt", "/tree/b.txt"]);
+        });
+
+        it("should yield pruned folders without their contents", async () => {
+            const paths = await walkPaths("/tree/", {prune: ({dirent}) => dirent.name === "deep"});
+            assert.deepEqual(paths, ["/tree/a/", "/tree/a/a1.txt", "/tree/a/deep/", "/tree/b.txt", "/tree/c/"]);
+        });
+
+        it("should not read pruned folders", async () => {
+            let transaction_count = 0;
+            const counting_core: FSCore = {
+                ...core,
+                transaction: ((mode: 'readonly') => {
+                    ++transaction_count;
+                    return core.transaction(mode);
+                }) as FSCore['transaction'],
+            };
+
+            await collect(createWalkOps(counting_core).walk("/tree/", {prune: ({path}) => path === "/tree/a/"}));
+
+            // `/tree/` and `/tree/c/`.
+            assert.strictEqual(transaction_count, 2);
+        });
+
+        it("should set dirents, and stats with withStats", async () => {
+            const entries = await collect(walk_ops.walk("/tree/", {withStats: true, maxDepth: 1}));
+
+            const b = entries.find(({path}) => path === "/tree/b.txt")!;
+            assert.isTrue(b.dirent.isFile());
+            assert.strictEqual(b.dirent.name, "b.txt");
+            assert.strictEqual(b.dirent.parentPath, "/tree/");
+            assert.strictEqual(b.stats.size, 1);
+
+            assert.isUndefined((await collect(walk_ops.walk("/tree/")))[0]!.stats);
+        });
+
+        it("should give parent paths under a linked root", async () => {
+            await createLinkOps(core).symlink("/tree", "/link");
+
+            for(const {path, dirent} of await collect(walk_ops.walk("/link/"))) {
+                assert.strictEqual(`${dirent.parentPath}${dirent.name}`, path.replace(/\/$/, ""));
+            }
+        });
+    });
+
+    context("errors", () => {
+        it("should throw ENOENT for a missing root, and ENOTDIR for a file", async () => {
+            try {
+                await collect(walk_ops.walk("/missing/"));
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'ENOENT');
+            }
+
+            try {
+                await collect(walk_ops.walk("/tree/b.txt/"));
+                assert.fail("Expected error");
+            } catch (err) {
+                assertFSError(err, 'ENOTDIR');
+            }
+        });
+
+        it("should throw EINVAL for invalid options", () => {
+            for(const options of [{maxDepth: -1}, {maxDepth: 1.5}, {order: 'dfs' as 'pre'}]) {
+                try {
+                    walk_ops.walk("/tree/", options);
+                    assert.fail("Expected error");
+                } catch (err) {
+                    assertFSError(err, 'EINVAL');
+                }
+            }
+        });
+    });
+});
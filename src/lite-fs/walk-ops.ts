@@ -0,0 +1,62 @@
+export type {WalkOps} from "../api/walk-ops.ts";
+import type {Stats} from "../api/stat-ops.ts";
+import type {WalkEntry, WalkOps, WalkOptions} from "../api/walk-ops.ts";
+
+import {FSError} from "../error.ts";
+import {getParentPath, validatePath} from "../path.ts";
+import {walkTree, type FSCore, type WalkNode} from "./core/index.ts";
+import {createDirent} from "./dir.ts";
+import {createStats} from "./stat-ops.ts";
+
+const WALK_ORDERS: ReadonlyArray<string> = ['pre', 'post', 'bfs'];
+
+export function createWalkOps(core: FSCore): WalkOps {
+    function walk(root: string, options?: WalkOptions & {withStats?: false}): AsyncIterableIterator<WalkEntry>;
+    function walk(root: string, options: WalkOptions & {withStats: true}): AsyncIterableIterator<WalkEntry & {stats: Stats}>;
+    function walk(in_root: string, options?: WalkOptions): AsyncIterableIterator<WalkEntry> {
+        const root = validatePath(in_root, 'folder');
+
+        const max_depth = options?.maxDepth ?? Infinity;
+        if(!(Number.isSafeInteger(max_depth) || max_depth === Infinity) || max_depth < 0) {
+            throw FSError.EINVAL(root, 'walk');
+        }
+
+        const order = options?.order ?? 'pre';
+        if(!WALK_ORDERS.includes(order)) {
+            throw FSError.EINVAL(root, 'walk');
+        }
+
+        const filter = options?.filter;
+        const prune = options?.prune;
+        const with_stats = options?.withStats ?? false;
+
+        // `prune` and `filter` are both given the entry for a node, so it is built once.
+        const entries = new WeakMap<WalkNode, WalkEntry>();
+        const toWalkEntry = (node: WalkNode): WalkEntry => {
+            let entry = entries.get(node);
+            if(!entry) {
+                entry = {path: node.path, dirent: createDirent(node.entry, node.name, getParentPath(node.path)), depth: node.depth};
+                if(with_stats) entry.stats = createStats(node.entry);
+                entries.set(node, entry);
+            }
+            return entry;
+        };
+
+        const nodes = walkTree(core, root, 'walk', {
+            maxDepth: max_depth,
+            order,
+            ...(prune ? {prune: (node: WalkNode) => prune(toWalkEntry(node))} : {}),
+        });
+
+        async function* filterNodes(): AsyncGenerator<WalkEntry> {
+            for await (const node of nodes) {
+                const entry = toWalkEntry(node);
+                if(!filter || filter(entry)) yield entry;
+            }
+        }
+
+        return filterNodes();
+    }
+
+    return {walk};
+}